@@ -12,10 +12,13 @@ import {
   ListToolsRequestSchema,
   GetPromptRequestSchema,
   ListPromptsRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   ErrorCode,
   McpError,
 } from "@modelcontextprotocol/sdk/types.js";
 import { type Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { type LocalRepositoryChange } from "./utils/axios.js";
 import { resourceHandlers, resources } from "./resources.js";
 import { promptHandlers, prompts } from "./prompts.js";
 import { toolHandlers, tools, unifiedToolSchema } from "./tools.js";
@@ -25,6 +28,9 @@ import {
 } from "./resource-templates.js";
 import { z } from "zod";
 
+// Resource URIs clients asked to be notified about
+const subscriptions = new Set<string>();
+
 /**
  * Sets up all request handlers for the MCP server
  * @param server - The MCP server instance
@@ -92,6 +98,17 @@ export const setupHandlers = (server: Server): void => {
     }
   });
 
+  // Track subscriptions for resources/updated notifications
+  server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
   // List available prompts
   server.setRequestHandler(ListPromptsRequestSchema, () => ({
     prompts: Object.values(prompts),
@@ -160,6 +177,33 @@ export const setupHandlers = (server: Server): void => {
   };
 };
 
+/**
+ * Tell clients about edits in the local repository: the resource list may
+ * have changed when files were added or removed, and subscribed resources
+ * built from the changed components are updated
+ * @param server - The MCP server instance
+ * @param change - Invalidated local changes
+ */
+export const notifyLocalChanges = async (
+  server: Server,
+  change: LocalRepositoryChange,
+): Promise<void> => {
+  if (change.structural) {
+    await server.sendResourceListChanged();
+  }
+
+  for (const uri of subscriptions) {
+    const component = uri.match(/[?&]component=([^&]+)/)?.[1];
+    const affected =
+      (uri === "resource:get_grafana_components" && change.structural) ||
+      (component !== undefined &&
+        change.components.includes(decodeURIComponent(component)));
+    if (affected) {
+      await server.sendResourceUpdated({ uri });
+    }
+  }
+};
+
 /**
  * Get Zod schema for tool validation if available
  * @param toolName Name of the tool
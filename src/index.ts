@@ -12,7 +12,7 @@
  */
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { setupHandlers } from "./handler.js";
+import { notifyLocalChanges, setupHandlers } from "./handler.js";
 import { axios } from "./utils/axios.js";
 
 /**
@@ -35,6 +35,22 @@ Usage:
 Options:
   --github-api-key, -g <token>     GitHub Personal Access Token for API access
   --grafana-repo-path, -l <path>   Path to local Grafana repository (takes precedence over GitHub API)
+  --ref, -r <ref>                  Default git ref for every action: branch, tag or commit SHA
+  --repo <owner/name>              Read a fork instead of grafana/grafana (default: grafana/grafana)
+  --github-api-url <url>           GitHub API base URL, e.g. https://github.example.com/api/v3
+  --github-raw-url <url>           Raw content base URL (default: derived from the API URL)
+  --ca-file <path>                 PEM bundle of additional trusted certificates
+  --proxy <url>                    HTTP(S) proxy for GitHub requests
+  --node-modules-path, -n <path>   Read @grafana/ui from an installed package (project, node_modules or package dir)
+  --no-node-modules                Don't auto-detect @grafana/ui in the current project's node_modules
+  --snapshot, -s <file>            Serve everything offline from a snapshot archive
+  --export-snapshot <file>         Write a snapshot archive from the configured sources and exit
+  --no-watch                       Don't watch the local repository for edits
+  --cache-dir <path>               Directory of the disk cache shared across restarts (default: $XDG_CACHE_HOME/grafana-ui-mcp-server)
+  --no-disk-cache                  Keep cached GitHub content in memory only
+  --cache-max-entries <n>          Maximum entries kept in memory, least recently used evicted first (default: 5000, 0: unlimited)
+  --cache-max-mb <n>               Maximum size of the in-memory cache in MB (default: 128, 0: unlimited)
+  --cache-sweep-interval <seconds> How often expired entries are dropped from memory (default: 300, 0: only on access)
   --help, -h                       Show this help message
   --version, -v                    Show version information
 
@@ -44,15 +60,34 @@ Examples:
   npx @shelldandy/grafana-ui-mcp-server -g ghp_your_token_here
   npx @shelldandy/grafana-ui-mcp-server --grafana-repo-path /path/to/grafana
   npx @shelldandy/grafana-ui-mcp-server -l /path/to/grafana
+  npx @shelldandy/grafana-ui-mcp-server --ref v11.2.0
+  npx @shelldandy/grafana-ui-mcp-server --repo my-org/grafana --ref my-branch
+  npx @shelldandy/grafana-ui-mcp-server --github-api-url https://github.example.com/api/v3 --ca-file corp-ca.pem
+  npx @shelldandy/grafana-ui-mcp-server --node-modules-path /path/to/my-plugin
+  npx @shelldandy/grafana-ui-mcp-server --ref v11.2.0 --export-snapshot grafana-ui-11.2.0.json.gz
+  npx @shelldandy/grafana-ui-mcp-server --snapshot grafana-ui-11.2.0.json.gz
 
 Environment Variables:
   GITHUB_PERSONAL_ACCESS_TOKEN     Alternative way to provide GitHub token
   GITHUB_TOKEN                     Alternative way to provide GitHub token
   GRAFANA_REPO_PATH               Path to local Grafana repository
+  GRAFANA_REF                     Default git ref (branch, tag or commit SHA)
+  GRAFANA_REPO                    Repository to read, as owner/name
+  GITHUB_API_URL                  GitHub API base URL (GitHub Enterprise Server)
+  GITHUB_RAW_URL                  Raw content base URL
+  GRAFANA_UI_CA_FILE              PEM bundle of additional trusted certificates
+  HTTPS_PROXY / HTTP_PROXY        Proxy for GitHub requests
+  NO_PROXY                        Hosts that bypass the proxy
+  GRAFANA_UI_NODE_MODULES_PATH    Path used to locate an installed @grafana/ui package
+  GRAFANA_UI_SNAPSHOT             Snapshot archive to serve offline
+  GRAFANA_UI_CACHE_DIR            Directory of the disk cache
+  GRAFANA_UI_CACHE_MAX_ENTRIES    Maximum entries kept in memory
+  GRAFANA_UI_CACHE_MAX_MB         Maximum size of the in-memory cache in MB
+  GRAFANA_UI_CACHE_SWEEP_INTERVAL Sweep interval for expired entries in seconds
 
 Available Tool (Unified Interface):
   Single Tool: grafana_ui
-    • Action-based routing with 11 available actions
+    • Action-based routing with 15 available actions
     • Comprehensive parameter validation
     • Simplified interface for AI agents
     
@@ -70,8 +105,14 @@ Available Tool (Unified Interface):
     • search            - Search components by name/description
     • get_theme_tokens  - Get Grafana design system tokens
     • get_dependencies  - Get dependency tree analysis
+    • diff_component    - Diff a component between two refs (fromRef/toRef)
+    • cache             - Cache statistics, clear, clear_prefix and warm (operation)
+    • get_deprecations  - Deprecated components, props and types with replacements
+    • get_styles        - Style blocks with the theme tokens and CSS properties they use
     
   Usage: { "tool": "grafana_ui", "arguments": { "action": "get_component", "componentName": "Button" } }
+  Every action accepts an optional "ref" (branch, tag or commit SHA), e.g. "ref": "v11.2.0"
+  and optional "owner"/"repo" to read a different repository for that call
 
 GitHub API Setup:
   Without token: 60 requests/hour (rate limited)
@@ -132,7 +173,125 @@ For more information, visit: https://github.com/shelldandy/grafana-ui-mcp-server
     grafanaRepoPath = process.env.GRAFANA_REPO_PATH;
   }
 
-  return { githubApiKey, grafanaRepoPath };
+  // Default git ref
+  const refIndex = args.findIndex((arg) => arg === "--ref" || arg === "-r");
+  let ref = null;
+
+  if (refIndex !== -1 && args[refIndex + 1]) {
+    ref = args[refIndex + 1];
+  } else if (process.env.GRAFANA_REF) {
+    ref = process.env.GRAFANA_REF;
+  }
+
+  // Repository (fork) to read
+  const repoIndex = args.indexOf("--repo");
+  let repo = null;
+
+  if (repoIndex !== -1 && args[repoIndex + 1]) {
+    repo = args[repoIndex + 1];
+  } else if (process.env.GRAFANA_REPO) {
+    repo = process.env.GRAFANA_REPO;
+  }
+
+  // GitHub Enterprise endpoints and corporate network settings
+  const optionValue = (flag: string, ...envNames: string[]) => {
+    const index = args.indexOf(flag);
+    if (index !== -1 && args[index + 1]) {
+      return args[index + 1];
+    }
+    const envName = envNames.find((name) => process.env[name]);
+    return envName ? process.env[envName]! : null;
+  };
+  const githubApiUrl = optionValue("--github-api-url", "GITHUB_API_URL");
+  const githubRawUrl = optionValue("--github-raw-url", "GITHUB_RAW_URL");
+  const caFile = optionValue("--ca-file", "GRAFANA_UI_CA_FILE");
+  const proxy = optionValue(
+    "--proxy",
+    "HTTPS_PROXY",
+    "https_proxy",
+    "HTTP_PROXY",
+    "http_proxy",
+  );
+  const noProxy = process.env.NO_PROXY || process.env.no_proxy || null;
+
+  // Installed @grafana/ui package
+  const nodeModulesPathIndex = args.findIndex(
+    (arg) => arg === "--node-modules-path" || arg === "-n",
+  );
+  let nodeModulesPath = null;
+
+  if (nodeModulesPathIndex !== -1 && args[nodeModulesPathIndex + 1]) {
+    nodeModulesPath = args[nodeModulesPathIndex + 1];
+  } else if (process.env.GRAFANA_UI_NODE_MODULES_PATH) {
+    nodeModulesPath = process.env.GRAFANA_UI_NODE_MODULES_PATH;
+  }
+  const detectNodeModules = !args.includes("--no-node-modules");
+
+  // Offline snapshot to serve from
+  const snapshotIndex = args.findIndex(
+    (arg) => arg === "--snapshot" || arg === "-s",
+  );
+  let snapshotPath = null;
+
+  if (snapshotIndex !== -1 && args[snapshotIndex + 1]) {
+    snapshotPath = args[snapshotIndex + 1];
+  } else if (process.env.GRAFANA_UI_SNAPSHOT) {
+    snapshotPath = process.env.GRAFANA_UI_SNAPSHOT;
+  }
+
+  // Snapshot to write before exiting
+  const exportSnapshotIndex = args.indexOf("--export-snapshot");
+  const exportSnapshotPath =
+    exportSnapshotIndex !== -1 ? args[exportSnapshotIndex + 1] || null : null;
+
+  // Disk tier of the cache
+  const cacheDir = optionValue("--cache-dir", "GRAFANA_UI_CACHE_DIR");
+  const diskCache = !args.includes("--no-disk-cache");
+  const watch = !args.includes("--no-watch");
+
+  // Bounds of the in-memory cache (non-negative numbers, 0 disables a limit)
+  const numberOption = (flag: string, envName: string) => {
+    const value = optionValue(flag, envName);
+    if (value === null) {
+      return null;
+    }
+    const number = Number(value);
+    if (!Number.isFinite(number) || number < 0) {
+      throw new Error(`Invalid ${flag} "${value}": expected a number >= 0`);
+    }
+    return number;
+  };
+  const cacheMaxEntries = numberOption(
+    "--cache-max-entries",
+    "GRAFANA_UI_CACHE_MAX_ENTRIES",
+  );
+  const cacheMaxMb = numberOption("--cache-max-mb", "GRAFANA_UI_CACHE_MAX_MB");
+  const cacheSweepInterval = numberOption(
+    "--cache-sweep-interval",
+    "GRAFANA_UI_CACHE_SWEEP_INTERVAL",
+  );
+
+  return {
+    githubApiKey,
+    grafanaRepoPath,
+    ref,
+    repo,
+    githubApiUrl,
+    githubRawUrl,
+    caFile,
+    proxy,
+    noProxy,
+    nodeModulesPath,
+    detectNodeModules,
+    snapshotPath,
+    exportSnapshotPath,
+    cacheDir,
+    diskCache,
+    watch,
+    cacheMaxEntries,
+    cacheMaxMb,
+    cacheSweepInterval,
+  };
 }
 
 /**
@@ -140,7 +299,81 @@ For more information, visit: https://github.com/shelldandy/grafana-ui-mcp-server
  */
 async function main() {
   try {
-    const { githubApiKey, grafanaRepoPath } = await parseArgs();
+    const {
+      githubApiKey,
+      grafanaRepoPath,
+      ref,
+      repo,
+      githubApiUrl,
+      githubRawUrl,
+      caFile,
+      proxy,
+      noProxy,
+      nodeModulesPath,
+      detectNodeModules,
+      snapshotPath,
+      exportSnapshotPath,
+      cacheDir,
+      diskCache,
+      watch,
+      cacheMaxEntries,
+      cacheMaxMb,
+      cacheSweepInterval,
+    } = await parseArgs();
+
+    // CA bundle and proxy for corporate networks
+    if (caFile || proxy) {
+      axios.setNetworkOptions({ caFile, proxy, noProxy });
+      if (caFile) console.error(`CA bundle configured: ${caFile}`);
+      if (proxy) console.error(`Proxy configured: ${new URL(proxy).host}`);
+    }
+
+    // GitHub Enterprise Server (or any other GitHub-compatible host)
+    if (githubApiUrl || githubRawUrl) {
+      axios.setGitHubEndpoints(githubApiUrl, githubRawUrl);
+      const endpoints = axios.getGitHubEndpoints();
+      console.error(
+        `GitHub endpoints configured: API ${endpoints.api}, raw ${endpoints.raw}`,
+      );
+    }
+
+    // Bounds of the in-memory cache
+    if (
+      cacheMaxEntries !== null ||
+      cacheMaxMb !== null ||
+      cacheSweepInterval !== null
+    ) {
+      axios.setCacheLimits({
+        ...(cacheMaxEntries !== null && { maxEntries: cacheMaxEntries }),
+        ...(cacheMaxMb !== null && { maxBytes: cacheMaxMb * 1024 * 1024 }),
+        ...(cacheSweepInterval !== null && {
+          sweepInterval: cacheSweepInterval * 1000,
+        }),
+      });
+      const limits = axios.getCacheLimits();
+      console.error(
+        `Cache limits configured: ${limits.maxEntries} entries, ${limits.maxBytes} bytes, sweep every ${limits.sweepInterval} ms (0 = unlimited/off)`,
+      );
+    }
+
+    // Disk cache shared across restarts; snapshots are already local
+    if (diskCache && !snapshotPath) {
+      const disk = axios.setDiskCache({ dir: cacheDir ?? undefined });
+      console.error(`Disk cache configured: ${disk!.dir}`);
+    }
+
+    // Repository applies to GitHub reads; a local checkout should be of the same fork
+    if (repo) {
+      const { owner, repo: name } = axios.parseRepository(repo);
+      axios.setRepository(owner, name);
+      console.error(`Repository configured: ${owner}/${name}`);
+    }
+
+    // Default ref applies to both the local repository (read from git) and GitHub
+    if (ref) {
+      axios.setDefaultRef(ref);
+      console.error(`Default git ref configured: ${ref}`);
+    }
 
     // Configure local Grafana repository path (takes precedence over GitHub API)
     if (grafanaRepoPath) {
@@ -160,7 +393,7 @@ async function main() {
     } else if (githubApiKey) {
       axios.setGitHubApiKey(githubApiKey);
       console.error("GitHub API key configured successfully");
-    } else {
+    } else if (!snapshotPath) {
       console.error(
         "Warning: No local repository or GitHub API key provided. Rate limited to 60 requests/hour.",
       );
@@ -169,6 +402,76 @@ async function main() {
       );
     }
 
+    // Configure an installed @grafana/ui package, explicitly or auto-detected from cwd
+    if (
+      !snapshotPath &&
+      (nodeModulesPath || (detectNodeModules && !grafanaRepoPath))
+    ) {
+      try {
+        const installed = nodeModulesPath
+          ? axios.setNodeModulesPackage(nodeModulesPath)
+          : axios.setNodeModulesPackage(process.cwd(), true);
+        console.error(
+          `Installed ${installed.name}@${installed.version} configured: ${installed.root}`,
+        );
+
+        // Read everything else (stories, docs, tests) at the shipped release,
+        // which is only known to be tagged upstream; a fork may lack the tag
+        if (!ref) {
+          const { owner, repo: name } = axios.getRepository();
+          const upstream = `${owner}/${name}`.toLowerCase() === "grafana/grafana";
+          if (upstream) {
+            axios.setDefaultRef(`v${installed.version}`);
+            console.error(
+              `Default git ref configured from installed package: v${installed.version}`,
+            );
+          } else {
+            console.error(
+              `Default git ref left unset: ${owner}/${name} may not have tag v${installed.version}, pass --ref to pin one`,
+            );
+          }
+        }
+      } catch (error: any) {
+        if (nodeModulesPath) {
+          console.error(
+            `Error configuring installed package: ${error.message}`,
+          );
+        }
+      }
+    }
+
+    // Capture the configured sources into an offline snapshot and exit
+    if (exportSnapshotPath) {
+      console.error(`Exporting snapshot to ${exportSnapshotPath}...`);
+      const manifest = await axios.exportSnapshot(
+        exportSnapshotPath,
+        undefined,
+        (done, total) => {
+          if (done % 25 === 0 || done === total) {
+            console.error(`  ${done}/${total} components`);
+          }
+        },
+      );
+      console.error(
+        `Snapshot written: ${manifest.components} components, ${manifest.files} files` +
+          (manifest.commitSha ? ` at ${manifest.commitSha}` : ""),
+      );
+      process.exit(0);
+    }
+
+    // An offline snapshot replaces every other source
+    if (snapshotPath) {
+      const manifest = axios.loadSnapshot(snapshotPath);
+      console.error(
+        `Snapshot loaded: ${snapshotPath} (${manifest.components} components` +
+          (manifest.ref ? `, ref ${manifest.ref}` : "") +
+          ")",
+      );
+      if (manifest.ref && !ref) {
+        axios.setDefaultRef(manifest.ref);
+      }
+    }
+
     // Initialize the MCP server with metadata and capabilities
     const server = new Server(
       {
@@ -177,7 +480,8 @@ async function main() {
       },
       {
         capabilities: {
-          resources: {}, // Will be filled with registered resources
+          // Edits to a local repository are announced (see notifyLocalChanges)
+          resources: { subscribe: true, listChanged: true },
           prompts: {}, // Will be filled with registered prompts
           tools: {}, // Will be filled with registered tools
         },
@@ -191,6 +495,20 @@ async function main() {
     const transport = new StdioServerTransport();
     await server.connect(transport);
 
+    // Pick up edits to a local checkout as soon as they are saved
+    if (watch && grafanaRepoPath && !snapshotPath) {
+      try {
+        const watched = axios.watchLocalRepository((change) => {
+          notifyLocalChanges(server, change).catch((error) =>
+            console.error("Failed to notify about local changes:", error),
+          );
+        });
+        console.error(`Watching local repository: ${watched.join(", ")}`);
+      } catch (error: any) {
+        console.error(`Not watching local repository: ${error.message}`);
+      }
+    }
+
     console.error("Grafana UI MCP Server started successfully");
   } catch (error) {
     console.error("Failed to start server:", error);
@@ -36,13 +36,14 @@ const getGrafanaComponentsList = async () => {
   try {
     // Use existing GitHub API integration to get components dynamically
     const components = await axios.getAvailableComponents();
+    const { owner, repo } = axios.getRepository();
 
     return {
       content: JSON.stringify(
         {
           total: components.length,
           components: components,
-          source: "@grafana/ui from grafana/grafana repository",
+          source: `@grafana/ui from ${owner}/${repo} repository`,
           path: "/packages/grafana-ui/src/components/",
           lastUpdated: new Date().toISOString(),
         },
@@ -95,13 +96,16 @@ const getGrafanaComponentsList = async () => {
  */
 const getGrafanaUIInfo = async () => {
   try {
+    const installed = axios.getInstalledPackage();
+    const { owner, repo } = axios.getRepository();
+
     return {
       content: JSON.stringify(
         {
           name: "@grafana/ui",
           description:
             "React component library for building interfaces that match the Grafana design system",
-          repository: "https://github.com/grafana/grafana",
+          repository: `https://github.com/${owner}/${repo}`,
           componentsPath: "/packages/grafana-ui/src/components/",
           documentation: "https://developers.grafana.com/ui/",
           storybook: "https://developers.grafana.com/ui/storybook/",
@@ -124,6 +128,13 @@ const getGrafanaUIInfo = async () => {
             import: "import { Button, Alert } from '@grafana/ui';",
             example: "<Button variant='primary'>Click me</Button>",
           },
+          installedPackage: installed
+            ? {
+                version: installed.version,
+                path: installed.root,
+                exports: axios.getInstalledPackageExports(),
+              }
+            : null,
         },
         null,
         2,
@@ -8,7 +8,7 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
-import { axios } from "./utils/axios.js";
+import { axios, Repository } from "./utils/axios.js";
 import { parseMDXContent } from "./utils/mdx-parser.js";
 import {
   parseStoryMetadata,
@@ -19,14 +19,18 @@ import {
   extractThemeMetadata,
   filterTokensByCategory,
 } from "./utils/theme-extractor.js";
+import { NameNotFoundError } from "./utils/name-matcher.js";
+import { PackageLayout, getPackageLayout } from "./utils/packages.js";
+import { isValidGitRef } from "./utils/content-source.js";
 import { z } from "zod";
 
 /**
  * Creates a standardized success response
  * @param data Data to include in the response
+ * @param source Optional name of the content source that served plain-text data
  * @returns Formatted response object
  */
-function createSuccessResponse(data: any) {
+function createSuccessResponse(data: any, source?: string) {
   return {
     content: [
       {
@@ -34,9 +38,32 @@ function createSuccessResponse(data: any) {
         text: typeof data === "string" ? data : JSON.stringify(data, null, 2),
       },
     ],
+    ...(source && { _meta: { source } }),
   };
 }
 
+/**
+ * Creates a success response for a source file, followed by the deprecated
+ * symbols it declares so code isn't written against them
+ * @param file Source file returned by the axios helpers
+ * @returns Formatted response object
+ */
+function createSourceResponse(file: {
+  path: string;
+  content: string;
+  source: string;
+}) {
+  const response = createSuccessResponse(file.content, file.source);
+  const deprecations = axios.findDeprecations(file.content, file.path);
+  if (deprecations.length > 0) {
+    response.content.push({
+      type: "text" as const,
+      text: JSON.stringify({ deprecations }, null, 2),
+    });
+  }
+  return response;
+}
+
 /**
  * Creates a standardized error response
  * @param message Error message
@@ -50,6 +77,196 @@ function createErrorResponse(
   throw new McpError(code, message);
 }
 
+/**
+ * Convert an unknown component or symbol name into an InvalidParams error
+ * whose data carries the ranked suggestions
+ * @param error Error raised while resolving the name
+ * @returns MCP error with structured suggestions
+ */
+function createNotFoundError(error: NameNotFoundError): McpError {
+  return new McpError(ErrorCode.InvalidParams, error.message, {
+    query: error.query,
+    suggestions: error.suggestions,
+  });
+}
+
+/**
+ * Resolve the `package` parameter to a package layout
+ * @param packageName Package identifier (default: @grafana/ui)
+ * @returns The package layout
+ */
+function resolvePackage(packageName?: string): PackageLayout {
+  try {
+    return getPackageLayout(packageName);
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+/**
+ * Handle the cache action: statistics, clearing and warming the cache
+ * @param params Tool parameters
+ * @param repository Optional repository override
+ * @returns Formatted response object
+ */
+async function handleCacheAction(params: any, repository?: Repository) {
+  switch (params.operation || "stats") {
+    case "stats":
+      return createSuccessResponse(await axios.getCacheStats());
+
+    case "clear":
+      return createSuccessResponse({
+        operation: "clear",
+        deleted: await axios.clearCache(),
+      });
+
+    case "clear_prefix":
+      if (!params.prefix) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          'The clear_prefix operation requires "prefix"',
+        );
+      }
+      return createSuccessResponse({
+        operation: "clear_prefix",
+        prefix: params.prefix,
+        deleted: await axios.clearCache(params.prefix),
+      });
+
+    case "warm":
+      return createSuccessResponse({
+        operation: "warm",
+        ...(await axios.warmCache(params.components, params.ref, repository)),
+      });
+
+    default:
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown cache operation: ${params.operation}`,
+      );
+  }
+}
+
+/**
+ * Handle the get_deprecations action for any package
+ * @param params Tool parameters
+ * @param layout Package layout
+ * @param repository Optional repository override
+ * @returns Formatted response object
+ */
+async function handleDeprecationsAction(
+  params: any,
+  layout: PackageLayout,
+  repository?: Repository,
+) {
+  const deprecations = await axios.getDeprecations(
+    layout.id,
+    params.ref,
+    repository,
+  );
+  const byKind: Record<string, number> = {};
+  for (const deprecation of deprecations) {
+    byKind[deprecation.kind] = (byKind[deprecation.kind] ?? 0) + 1;
+  }
+  return createSuccessResponse({
+    package: layout.name,
+    total: deprecations.length,
+    byKind,
+    deprecations,
+  });
+}
+
+/**
+ * Handle an action against a package without component directories
+ * (@grafana/data, @grafana/runtime, @grafana/schema); componentName names an
+ * exported symbol, which is located through the package's barrel files
+ * @param params Tool parameters
+ * @param layout Package layout
+ * @param repository Optional repository override
+ * @returns Formatted response object
+ */
+async function handlePackageAction(
+  params: any,
+  layout: PackageLayout,
+  repository?: Repository,
+) {
+  switch (params.action) {
+    case "get_component":
+      const symbolFile = await axios.getSymbolSource(
+        params.componentName,
+        layout.id,
+        params.ref,
+        repository,
+      );
+      return createSourceResponse(symbolFile);
+
+    case "list_components":
+      const symbols = axios.filterByStability(
+        (await axios.getPackageSymbols(layout.id, params.ref, repository)).map(
+          (symbol) => ({
+            name: symbol.exportName,
+            kind: symbol.kind,
+            file: symbol.file,
+            ...axios.describeExport(symbol),
+          }),
+        ),
+        params.stability,
+      );
+      return createSuccessResponse({
+        package: layout.name,
+        stability: params.stability || "all",
+        symbols,
+        total: symbols.length,
+      });
+
+    case "search":
+      const symbolResults = await axios.searchPackageSymbols(
+        params.query,
+        layout.id,
+        params.stability,
+        params.ref,
+        repository,
+      );
+      return createSuccessResponse({
+        package: layout.name,
+        query: params.query,
+        stability: params.stability || "all",
+        results: symbolResults,
+        totalResults: symbolResults.length,
+      });
+
+    case "get_dependencies":
+      return createSuccessResponse(
+        await axios.getSymbolDependencies(
+          params.componentName,
+          layout.id,
+          params.deep || false,
+          params.ref,
+          repository,
+        ),
+      );
+
+    case "get_directory":
+      return createSuccessResponse(
+        await axios.buildDirectoryTree(
+          repository?.owner,
+          repository?.repo,
+          params.path || layout.src,
+          params.ref || params.branch,
+        ),
+      );
+
+    default:
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Action "${params.action}" is only available for @grafana/ui components. ${layout.name} supports get_component, list_components, search, get_dependencies, get_directory and get_deprecations.`,
+      );
+  }
+}
+
 /**
  * Define an MCP server for our tools
  */
@@ -58,6 +275,19 @@ export const server = new McpServer({
   version: "1.0.0",
 });
 
+// Repository-relative path; ".." segments could reach outside a local repository
+const repositoryPathSchema = z
+  .string()
+  .refine((value) => !value.split(/[\\/]/).includes(".."), {
+    message: 'Path must stay within the repository (no ".." segments)',
+  });
+
+// Branch, tag or commit SHA; refs starting with "-" would be read as git options
+const gitRefSchema = z.string().refine(isValidGitRef, {
+  message:
+    'Invalid git ref: must not start with "-" or contain "..", ":", whitespace or control characters',
+});
+
 // Unified tool schema as raw shape for MCP server
 const unifiedToolSchemaRaw = {
   action: z.enum([
@@ -72,16 +302,31 @@ const unifiedToolSchemaRaw = {
     "search",
     "get_theme_tokens",
     "get_dependencies",
+    "diff_component",
+    "cache",
+    "get_deprecations",
+    "get_styles",
   ]),
   componentName: z.string().optional(),
   query: z.string().optional(),
   includeDescription: z.boolean().optional(),
   category: z.string().optional(),
   deep: z.boolean().optional(),
-  path: z.string().optional(),
+  includeDomProps: z.boolean().optional(),
+  path: repositoryPathSchema.optional(),
   owner: z.string().optional(),
   repo: z.string().optional(),
-  branch: z.string().optional(),
+  branch: gitRefSchema.optional(),
+  ref: gitRefSchema.optional(),
+  fromRef: gitRefSchema.optional(),
+  toRef: gitRefSchema.optional(),
+  package: z.string().optional(),
+  stability: z
+    .enum(["all", "stable", "unstable", "internal", "deprecated"])
+    .optional(),
+  operation: z.enum(["stats", "clear", "clear_prefix", "warm"]).optional(),
+  prefix: z.string().optional(),
+  components: z.array(z.string()).optional(),
 };
 
 // Unified tool schema with validation for handler.ts
@@ -99,16 +344,31 @@ const unifiedToolSchema = z
       "search",
       "get_theme_tokens",
       "get_dependencies",
+      "diff_component",
+      "cache",
+      "get_deprecations",
+      "get_styles",
     ]),
     componentName: z.string().optional(),
     query: z.string().optional(),
     includeDescription: z.boolean().optional(),
     category: z.string().optional(),
     deep: z.boolean().optional(),
-    path: z.string().optional(),
+    includeDomProps: z.boolean().optional(),
+    path: repositoryPathSchema.optional(),
     owner: z.string().optional(),
     repo: z.string().optional(),
-    branch: z.string().optional(),
+    branch: gitRefSchema.optional(),
+    ref: gitRefSchema.optional(),
+    fromRef: gitRefSchema.optional(),
+    toRef: gitRefSchema.optional(),
+    package: z.string().optional(),
+    stability: z
+      .enum(["all", "stable", "unstable", "internal", "deprecated"])
+      .optional(),
+    operation: z.enum(["stats", "clear", "clear_prefix", "warm"]).optional(),
+    prefix: z.string().optional(),
+    components: z.array(z.string()).optional(),
   })
   .refine(
     (data) => {
@@ -121,12 +381,18 @@ const unifiedToolSchema = z
         case "get_stories":
         case "get_tests":
         case "get_dependencies":
+        case "get_styles":
           return !!data.componentName;
+        case "diff_component":
+          return !!data.componentName && !!data.fromRef && !!data.toRef;
         case "search":
           return !!data.query;
+        case "cache":
+          return data.operation !== "clear_prefix" || !!data.prefix;
         case "list_components":
         case "get_directory":
         case "get_theme_tokens":
+        case "get_deprecations":
           return true;
         default:
           return false;
@@ -146,29 +412,63 @@ server.tool(
     try {
       // Validate parameters based on action
       const validatedParams = unifiedToolSchema.parse(params);
+      // owner/repo override the configured repository for this call
+      const repository = axios.resolveRepository(
+        validatedParams.owner,
+        validatedParams.repo,
+      );
+      if (validatedParams.action === "cache") {
+        return await handleCacheAction(validatedParams, repository);
+      }
+      const packageLayout = resolvePackage(validatedParams.package);
+      if (validatedParams.action === "get_deprecations") {
+        return await handleDeprecationsAction(
+          validatedParams,
+          packageLayout,
+          repository,
+        );
+      }
+      if (!packageLayout.componentsPath) {
+        return await handlePackageAction(
+          validatedParams,
+          packageLayout,
+          repository,
+        );
+      }
       switch (validatedParams.action) {
         case "get_component":
           const sourceCode = await axios.getComponentSource(
             validatedParams.componentName!,
+            validatedParams.ref,
+            repository,
           );
-          return createSuccessResponse(sourceCode);
+          return createSourceResponse(sourceCode);
 
         case "get_demo":
           const demoCode = await axios.getComponentDemo(
             validatedParams.componentName!,
+            validatedParams.ref,
+            repository,
           );
-          return createSuccessResponse(demoCode);
+          return createSuccessResponse(demoCode.content, demoCode.source);
 
         case "list_components":
-          const components = await axios.getAvailableComponents();
+          const components = axios.filterByStability(
+            await axios.getComponentCatalog(validatedParams.ref, repository),
+            validatedParams.stability,
+          );
           return createSuccessResponse({
-            components: components.sort(),
+            stability: validatedParams.stability || "all",
+            components,
             total: components.length,
           });
 
         case "get_metadata":
           const metadata = await axios.getComponentMetadata(
             validatedParams.componentName!,
+            validatedParams.ref,
+            repository,
+            validatedParams.includeDomProps ?? true,
           );
           if (!metadata) {
             throw new McpError(
@@ -180,20 +480,22 @@ server.tool(
 
         case "get_directory":
           const directoryTree = await axios.buildDirectoryTree(
-            validatedParams.owner || axios.paths.REPO_OWNER,
-            validatedParams.repo || axios.paths.REPO_NAME,
+            repository?.owner,
+            repository?.repo,
             validatedParams.path || axios.paths.COMPONENTS_PATH,
-            validatedParams.branch || axios.paths.REPO_BRANCH,
+            validatedParams.ref || validatedParams.branch,
           );
           return createSuccessResponse(directoryTree);
 
         case "get_documentation":
-          const mdxContent = await axios.getComponentDocumentation(
+          const mdxFile = await axios.getComponentDocumentation(
             validatedParams.componentName!,
+            validatedParams.ref,
+            repository,
           );
           const parsedContent = parseMDXContent(
             validatedParams.componentName!,
-            mdxContent,
+            mdxFile.content,
           );
           return createSuccessResponse({
             title: parsedContent.title,
@@ -208,17 +510,20 @@ server.tool(
             totalExamples: parsedContent.examples.length,
             imports: parsedContent.imports,
             components: parsedContent.components,
+            source: mdxFile.source,
           });
 
         case "get_stories":
-          const storyContent = await axios.getComponentDemo(
+          const storyFile = await axios.getComponentDemo(
             validatedParams.componentName!,
+            validatedParams.ref,
+            repository,
           );
           const storyMetadata = parseStoryMetadata(
             validatedParams.componentName!,
-            storyContent,
+            storyFile.content,
           );
-          const examples = extractStoryExamples(storyContent);
+          const examples = extractStoryExamples(storyFile.content);
           return createSuccessResponse({
             component: storyMetadata.componentName,
             meta: storyMetadata.meta,
@@ -226,14 +531,18 @@ server.tool(
             hasInteractiveStories: storyMetadata.hasInteractiveStories,
             examples: examples.slice(0, 5),
             rawStoryCode:
-              storyContent.substring(0, 1000) +
-              (storyContent.length > 1000 ? "..." : ""),
+              storyFile.content.substring(0, 1000) +
+              (storyFile.content.length > 1000 ? "..." : ""),
+            source: storyFile.source,
           });
 
         case "get_tests":
-          const testContent = await axios.getComponentTests(
+          const testFile = await axios.getComponentTests(
             validatedParams.componentName!,
+            validatedParams.ref,
+            repository,
           );
+          const testContent = testFile.content;
           const testDescriptions = [];
           const testRegex = /(describe|it|test)\s*\(\s*['`"]([^'`"]+)['`"]/g;
           let match;
@@ -252,16 +561,21 @@ server.tool(
             testCode:
               testContent.substring(0, 2000) +
               (testContent.length > 2000 ? "..." : ""),
+            source: testFile.source,
           });
 
         case "search":
           const searchResults = await axios.searchComponents(
             validatedParams.query!,
             validatedParams.includeDescription || false,
+            validatedParams.stability,
+            validatedParams.ref,
+            repository,
           );
           return createSuccessResponse({
             query: validatedParams.query,
             includeDescription: validatedParams.includeDescription || false,
+            stability: validatedParams.stability || "all",
             results: searchResults,
             totalResults: searchResults.length,
           });
@@ -269,6 +583,8 @@ server.tool(
         case "get_theme_tokens":
           const themeFiles = await axios.getThemeFiles(
             validatedParams.category,
+            validatedParams.ref,
+            repository,
           );
           const processedThemes: any = {};
           for (const [themeName, themeContent] of Object.entries(
@@ -289,15 +605,35 @@ server.tool(
             category: validatedParams.category || "all",
             themes: processedThemes,
             availableThemes: Object.keys(processedThemes),
+            source: themeFiles.source,
           });
 
         case "get_dependencies":
           const dependencies = await axios.getComponentDependencies(
             validatedParams.componentName!,
             validatedParams.deep || false,
+            validatedParams.ref,
+            repository,
           );
           return createSuccessResponse(dependencies);
 
+        case "get_styles":
+          const componentStyles = await axios.getComponentStyles(
+            validatedParams.componentName!,
+            validatedParams.ref,
+            repository,
+          );
+          return createSuccessResponse(componentStyles);
+
+        case "diff_component":
+          const componentDiff = await axios.getComponentDiff(
+            validatedParams.componentName!,
+            validatedParams.fromRef!,
+            validatedParams.toRef!,
+            repository,
+          );
+          return createSuccessResponse(componentDiff);
+
         default:
           throw new McpError(
             ErrorCode.InvalidParams,
@@ -308,6 +644,9 @@ server.tool(
       if (error instanceof McpError) {
         throw error;
       }
+      if (error instanceof NameNotFoundError) {
+        throw createNotFoundError(error);
+      }
 
       throw new McpError(
         ErrorCode.InternalError,
@@ -340,13 +679,17 @@ export const tools = {
             "search",
             "get_theme_tokens",
             "get_dependencies",
+            "diff_component",
+            "cache",
+            "get_deprecations",
+            "get_styles",
           ],
           description: "The action to perform",
         },
         componentName: {
           type: "string",
           description:
-            'Name of the Grafana UI component (e.g., "Button", "Alert")',
+            'Name of the Grafana UI component (e.g., "Button", "Alert"), or of an exported symbol when "package" is set (e.g., "DataFrame", "getBackendSrv")',
         },
         query: {
           type: "string",
@@ -367,22 +710,73 @@ export const tools = {
           description:
             "Whether to analyze dependencies recursively (default: false)",
         },
+        includeDomProps: {
+          type: "boolean",
+          description:
+            "Whether get_metadata lists the DOM attributes a component passes through, such as className and onClick (default: true)",
+        },
         path: {
           type: "string",
           description:
-            "Path within the repository (default: components directory)",
+            'Path within the repository, without ".." segments (default: components directory)',
         },
         owner: {
           type: "string",
-          description: 'Repository owner (default: "grafana")',
+          description:
+            'Repository owner, e.g. for a fork. Applies to every action (default: server --repo or "grafana")',
         },
         repo: {
           type: "string",
-          description: 'Repository name (default: "grafana")',
+          description:
+            'Repository name. Applies to every action (default: server --repo or "grafana")',
         },
         branch: {
           type: "string",
-          description: 'Branch name (default: "main")',
+          description:
+            'Branch name for get_directory (default: "main"; prefer "ref")',
+        },
+        ref: {
+          type: "string",
+          description:
+            'Git ref to read from: branch, tag or commit SHA (e.g., "v11.2.0"). Applies to every action (default: server --ref or "main")',
+        },
+        fromRef: {
+          type: "string",
+          description:
+            'Older git ref to compare from (required for diff_component, e.g., "v10.4.0")',
+        },
+        toRef: {
+          type: "string",
+          description:
+            'Newer git ref to compare to (required for diff_component, e.g., "v11.2.0")',
+        },
+        stability: {
+          type: "string",
+          enum: ["all", "stable", "unstable", "internal", "deprecated"],
+          description:
+            'Stability tier to keep for list_components and search: "stable" (@grafana/ui), "unstable" (@grafana/ui/unstable), "internal" (not part of the public API), "deprecated" (marked @deprecated) or "all" (default)',
+        },
+        package: {
+          type: "string",
+          description:
+            'Grafana package to read: "ui", "data", "runtime" or "schema" (also accepts "@grafana/data"). Packages other than @grafana/ui support get_component, list_components, search, get_dependencies and get_directory (default: "ui")',
+        },
+        operation: {
+          type: "string",
+          enum: ["stats", "clear", "clear_prefix", "warm"],
+          description:
+            'Cache operation: "stats" (hit/miss/eviction counters, bytes and oldest entry age per key prefix; default), "clear" (memory and disk), "clear_prefix" (keys starting with "prefix") or "warm" (fetch "components" at "ref" into the cache)',
+        },
+        prefix: {
+          type: "string",
+          description:
+            'Key prefix for the cache action\'s clear_prefix operation, e.g. "component:Button:" or "components:list"',
+        },
+        components: {
+          type: "array",
+          items: { type: "string" },
+          description:
+            "Components to fetch for the cache action's warm operation (default: commonly used components)",
         },
       },
       required: ["action"],
@@ -397,46 +791,76 @@ export { unifiedToolSchema };
 export const toolHandlers = {
   grafana_ui: async (params: any) => {
     try {
+      const repository = axios.resolveRepository(params.owner, params.repo);
+      if (params.action === "cache") {
+        return await handleCacheAction(params, repository);
+      }
+      const packageLayout = resolvePackage(params.package);
+      if (params.action === "get_deprecations") {
+        return await handleDeprecationsAction(
+          params,
+          packageLayout,
+          repository,
+        );
+      }
+      if (!packageLayout.componentsPath) {
+        return await handlePackageAction(params, packageLayout, repository);
+      }
       switch (params.action) {
         case "get_component":
           const sourceCode = await axios.getComponentSource(
             params.componentName!,
+            params.ref,
+            repository,
           );
-          return createSuccessResponse(sourceCode);
+          return createSourceResponse(sourceCode);
 
         case "get_demo":
-          const demoCode = await axios.getComponentDemo(params.componentName!);
-          return createSuccessResponse(demoCode);
+          const demoCode = await axios.getComponentDemo(
+            params.componentName!,
+            params.ref,
+            repository,
+          );
+          return createSuccessResponse(demoCode.content, demoCode.source);
 
         case "list_components":
-          const components = await axios.getAvailableComponents();
+          const components = axios.filterByStability(
+            await axios.getComponentCatalog(params.ref, repository),
+            params.stability,
+          );
           return createSuccessResponse({
-            components: components.sort(),
+            stability: params.stability || "all",
+            components,
             total: components.length,
           });
 
         case "get_metadata":
           const metadata = await axios.getComponentMetadata(
             params.componentName!,
+            params.ref,
+            repository,
+            params.includeDomProps ?? true,
           );
           return createSuccessResponse(metadata);
 
         case "get_directory":
           const directoryTree = await axios.buildDirectoryTree(
-            params.owner || axios.paths.REPO_OWNER,
-            params.repo || axios.paths.REPO_NAME,
+            repository?.owner,
+            repository?.repo,
             params.path || axios.paths.COMPONENTS_PATH,
-            params.branch || axios.paths.REPO_BRANCH,
+            params.ref || params.branch,
           );
           return createSuccessResponse(directoryTree);
 
         case "get_documentation":
-          const mdxContent = await axios.getComponentDocumentation(
+          const mdxFile = await axios.getComponentDocumentation(
             params.componentName!,
+            params.ref,
+            repository,
           );
           const parsedContent = parseMDXContent(
             params.componentName!,
-            mdxContent,
+            mdxFile.content,
           );
           return createSuccessResponse({
             title: parsedContent.title,
@@ -451,17 +875,20 @@ export const toolHandlers = {
             totalExamples: parsedContent.examples.length,
             imports: parsedContent.imports,
             components: parsedContent.components,
+            source: mdxFile.source,
           });
 
         case "get_stories":
-          const storyContent = await axios.getComponentDemo(
+          const storyFile = await axios.getComponentDemo(
             params.componentName!,
+            params.ref,
+            repository,
           );
           const storyMetadata = parseStoryMetadata(
             params.componentName!,
-            storyContent,
+            storyFile.content,
           );
-          const examples = extractStoryExamples(storyContent);
+          const examples = extractStoryExamples(storyFile.content);
           return createSuccessResponse({
             component: storyMetadata.componentName,
             meta: storyMetadata.meta,
@@ -469,14 +896,18 @@ export const toolHandlers = {
             hasInteractiveStories: storyMetadata.hasInteractiveStories,
             examples: examples.slice(0, 5),
             rawStoryCode:
-              storyContent.substring(0, 1000) +
-              (storyContent.length > 1000 ? "..." : ""),
+              storyFile.content.substring(0, 1000) +
+              (storyFile.content.length > 1000 ? "..." : ""),
+            source: storyFile.source,
           });
 
         case "get_tests":
-          const testContent = await axios.getComponentTests(
+          const testFile = await axios.getComponentTests(
             params.componentName!,
+            params.ref,
+            repository,
           );
+          const testContent = testFile.content;
           const testDescriptions = [];
           const testRegex = /(describe|it|test)\s*\(\s*['`"]([^'`"]+)['`"]/g;
           let match;
@@ -495,22 +926,31 @@ export const toolHandlers = {
             testCode:
               testContent.substring(0, 2000) +
               (testContent.length > 2000 ? "..." : ""),
+            source: testFile.source,
           });
 
         case "search":
           const searchResults = await axios.searchComponents(
             params.query!,
             params.includeDescription || false,
+            params.stability,
+            params.ref,
+            repository,
           );
           return createSuccessResponse({
             query: params.query,
             includeDescription: params.includeDescription || false,
+            stability: params.stability || "all",
             results: searchResults,
             totalResults: searchResults.length,
           });
 
         case "get_theme_tokens":
-          const themeFiles = await axios.getThemeFiles(params.category);
+          const themeFiles = await axios.getThemeFiles(
+            params.category,
+            params.ref,
+            repository,
+          );
           const processedThemes: any = {};
           for (const [themeName, themeContent] of Object.entries(
             themeFiles.themes,
@@ -530,15 +970,35 @@ export const toolHandlers = {
             category: params.category || "all",
             themes: processedThemes,
             availableThemes: Object.keys(processedThemes),
+            source: themeFiles.source,
           });
 
         case "get_dependencies":
           const dependencies = await axios.getComponentDependencies(
             params.componentName!,
             params.deep || false,
+            params.ref,
+            repository,
           );
           return createSuccessResponse(dependencies);
 
+        case "get_styles":
+          const componentStyles = await axios.getComponentStyles(
+            params.componentName!,
+            params.ref,
+            repository,
+          );
+          return createSuccessResponse(componentStyles);
+
+        case "diff_component":
+          const componentDiff = await axios.getComponentDiff(
+            params.componentName!,
+            params.fromRef!,
+            params.toRef!,
+            repository,
+          );
+          return createSuccessResponse(componentDiff);
+
         default:
           throw new McpError(
             ErrorCode.InvalidParams,
@@ -549,6 +1009,9 @@ export const toolHandlers = {
       if (error instanceof McpError) {
         throw error;
       }
+      if (error instanceof NameNotFoundError) {
+        throw createNotFoundError(error);
+      }
       throw new McpError(
         ErrorCode.InternalError,
         `Failed to execute action "${params.action}": ${error instanceof Error ? error.message : String(error)}`,
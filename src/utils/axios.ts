@@ -1,16 +1,108 @@
 import { Axios } from "axios";
 import fs from "fs";
 import path from "path";
+import {
+  CacheLimits,
+  CacheScope,
+  CacheStats,
+  cache,
+  grafanaUICache,
+  refTTL,
+} from "./cache.js";
+import {
+  ContentSource,
+  ContentSourceChain,
+  DirEntry,
+  GitHubSource,
+  LocalFsSource,
+  SourceFile,
+  SourceListing,
+  isValidGitRef,
+} from "./content-source.js";
+import {
+  InstalledPackage,
+  NodeModulesSource,
+  findInstalledPackage,
+} from "./node-modules-source.js";
+import {
+  ComponentFileDiff,
+  ComponentMetadataResult,
+  PropDefinition,
+  diffProps,
+  parseComponentMetadata,
+} from "./component-parser.js";
+import { createUnifiedDiff } from "./diff.js";
+import {
+  DeprecatedSymbol,
+  Deprecation,
+  findDeprecations,
+} from "./deprecations.js";
+import { DiskCache, DiskCacheOptions, DiskCacheStats } from "./disk-cache.js";
+import {
+  ExportMapBuilder,
+  ExportTarget,
+  deprecationReplacement,
+} from "./export-map.js";
+import { ConditionalRequestCache } from "./http-cache.js";
+import { MatchReason, NameNotFoundError, resolveName } from "./name-matcher.js";
+import { NetworkOptions, configureNetwork } from "./network.js";
+import { PropTypeReader } from "./prop-extractor.js";
+import {
+  DEFAULT_PACKAGE,
+  PACKAGE_LAYOUTS,
+  StabilityTier,
+  getPackageLayout,
+} from "./packages.js";
+import { RequestScheduler } from "./rate-limit.js";
+import { RepoChange, RepoWatcher } from "./repo-watcher.js";
+import {
+  StyleFactory,
+  ThemeTokenSummary,
+  extractStyles,
+  summarizeThemeTokens,
+} from "./style-extractor.js";
+import {
+  SNAPSHOT_FORMAT_VERSION,
+  SnapshotArchive,
+  SnapshotManifest,
+  SnapshotSource,
+  readSnapshotFile,
+  writeSnapshotFile,
+} from "./snapshot.js";
 
 // Constants for the Grafana UI repository structure
 const REPO_OWNER = "grafana";
 const REPO_NAME = "grafana";
 const REPO_BRANCH = "main";
-const GRAFANA_UI_BASE_PATH = "packages/grafana-ui/src";
+const GRAFANA_UI_PACKAGE_PATH = "packages/grafana-ui";
+const GRAFANA_UI_BASE_PATH = `${GRAFANA_UI_PACKAGE_PATH}/src`;
 const COMPONENTS_PATH = `${GRAFANA_UI_BASE_PATH}/components`;
-
-// Local repository configuration
-let localRepoPath: string | null = null;
+// Components cached by the cache action's "warm" operation when none are given
+const WARM_UP_COMPONENTS = [
+  "Button",
+  "Input",
+  "Select",
+  "Field",
+  "Stack",
+  "Icon",
+  "Modal",
+  "Alert",
+  "Card",
+  "Tooltip",
+];
+const THEME_PATHS = [
+  `${GRAFANA_UI_BASE_PATH}/themes/light.ts`,
+  `${GRAFANA_UI_BASE_PATH}/themes/dark.ts`,
+  `${GRAFANA_UI_BASE_PATH}/themes/base.ts`,
+  `${GRAFANA_UI_BASE_PATH}/themes/default.ts`,
+];
+const THEME_DIRECTORIES = [
+  ...new Set(
+    THEME_PATHS.map((themePath) =>
+      themePath.slice(0, themePath.lastIndexOf("/")),
+    ),
+  ),
+];
 
 // GitHub API for accessing repository structure and metadata
 const githubApi = new Axios({
@@ -36,9 +128,10 @@ const githubApi = new Axios({
   ],
 });
 
-// GitHub Raw for directly fetching file contents
+// GitHub Raw for directly fetching file contents (paths are /owner/repo/ref/file)
+const DEFAULT_RAW_BASE_URL = "https://raw.githubusercontent.com";
 const githubRaw = new Axios({
-  baseURL: `https://raw.githubusercontent.com/${REPO_OWNER}/${REPO_NAME}/${REPO_BRANCH}`,
+  baseURL: DEFAULT_RAW_BASE_URL,
   headers: {
     "User-Agent": "Mozilla/5.0 (compatible; GrafanaUiMcpServer/1.0.0)",
   },
@@ -46,6 +139,102 @@ const githubRaw = new Axios({
   transformResponse: [(data) => data], // Return raw data
 });
 
+// Shared scheduler pacing both instances against GitHub's rate limits;
+// raw.githubusercontent.com doesn't report a budget but still gets retries
+const githubScheduler = new RequestScheduler();
+githubScheduler.attach(githubApi, { rateLimited: true });
+githubScheduler.attach(githubRaw, { rateLimited: false });
+
+// ETag/Last-Modified revalidation in front of the scheduler; 304s are free
+const githubHttpCache = new ConditionalRequestCache();
+githubHttpCache.attach(githubApi);
+githubHttpCache.attach(githubRaw);
+
+// CA bundle and proxy settings, reapplied whenever the endpoints change
+let networkOptions: NetworkOptions | null = null;
+
+export interface PackageExport extends ExportTarget {
+  /** Most stable entry point exporting the name */
+  tier: StabilityTier;
+}
+
+/** Stability of a component or symbol; deprecation overrides the surface it is exported from */
+export type ApiTier = StabilityTier | "deprecated";
+
+export interface ComponentInfo {
+  name: string;
+  /** File declaring the component */
+  file: string;
+  /** Null when the package's barrel files couldn't be read */
+  tier: ApiTier | null;
+  deprecation: Deprecation | null;
+}
+
+export interface Repository {
+  owner: string;
+  repo: string;
+}
+
+export interface LocalRepositoryChange extends RepoChange {
+  /** Component names whose cached entries were dropped */
+  components: string[];
+  /** Whether theme files changed */
+  themes: boolean;
+}
+
+// Repository read by default; a fork can be configured with setRepository
+let configuredRepository: Repository = { owner: REPO_OWNER, repo: REPO_NAME };
+
+/**
+ * Create the GitHub-backed content source for a repository
+ */
+function createGitHubSource({ owner, repo }: Repository): GitHubSource {
+  return new GitHubSource({
+    api: githubApi,
+    raw: githubRaw,
+    owner,
+    repo,
+    defaultRef: REPO_BRANCH,
+    // Listings come from one recursive tree request per package and ref
+    indexRoots: Object.values(PACKAGE_LAYOUTS).map((layout) => layout.root),
+    blobStore: cache.getDiskCache() ?? undefined,
+    description:
+      owner === REPO_OWNER && repo === REPO_NAME
+        ? "Grafana UI repository"
+        : `${owner}/${repo} repository`,
+  });
+}
+
+// GitHub-backed content source, always available as the last resort
+let githubSource = createGitHubSource(configuredRepository);
+
+// Sources tried in order by every getter: local repository, installed package, GitHub
+const contentSources = new ContentSourceChain([githubSource]);
+// GitHub-only chains for per-call repository overrides, keyed by "owner/repo"
+const repositorySources = new Map<string, ContentSourceChain>();
+let localSource: LocalFsSource | null = null;
+let localRepoPath: string | null = null;
+let localWatcher: RepoWatcher | null = null;
+let nodeModulesSource: NodeModulesSource | null = null;
+// When a snapshot is loaded it is the only source, so nothing touches the network
+let snapshotSource: SnapshotSource | null = null;
+
+// Server-wide default git ref (branch, tag or SHA); null means each source's own default
+let defaultRef: string | null = null;
+
+// Archive exportSnapshot is filling; reads of the configured repository are copied into it
+let snapshotRecording: {
+  archive: SnapshotArchive;
+  sources: Set<string>;
+} | null = null;
+
+// Export maps of package barrel files, keyed by "owner/repo:package@ref";
+// they expire with the ref's TTL, like the files they are built from
+const packageExports = new Map<
+  string,
+  { exports: Promise<Map<string, PackageExport>>; expiresAt: number }
+>();
+
 /**
  * Set local Grafana repository path
  * @param repoPath Path to local Grafana repository
@@ -56,639 +245,1449 @@ function setLocalGrafanaRepo(repoPath: string): void {
   if (!fs.existsSync(componentsPath)) {
     throw new Error(
       `Invalid Grafana repository path: ${componentsPath} not found. ` +
-      `Expected Grafana repository structure with ${COMPONENTS_PATH} directory.`
+        `Expected Grafana repository structure with ${COMPONENTS_PATH} directory.`,
     );
   }
-  
+
   // Additional validation - check for at least one component directory
   try {
-    const componentDirs = fs.readdirSync(componentsPath, { withFileTypes: true })
-      .filter(dirent => dirent.isDirectory())
-      .map(dirent => dirent.name);
-    
+    const componentDirs = fs
+      .readdirSync(componentsPath, { withFileTypes: true })
+      .filter((dirent) => dirent.isDirectory())
+      .map((dirent) => dirent.name);
+
     if (componentDirs.length === 0) {
       throw new Error(
         `No component directories found in ${componentsPath}. ` +
-        `Expected Grafana UI component structure.`
+          `Expected Grafana UI component structure.`,
       );
     }
   } catch (error: any) {
     throw new Error(
-      `Cannot read components directory ${componentsPath}: ${error.message}`
+      `Cannot read components directory ${componentsPath}: ${error.message}`,
     );
   }
 
+  localSource = new LocalFsSource(repoPath);
   localRepoPath = repoPath;
+  localWatcher?.close();
+  localWatcher = null;
+  rebuildContentSources();
   console.log(`Local Grafana repository configured: ${repoPath}`);
 }
 
 /**
- * Get component source from local filesystem
- * @param componentName Name of the component
- * @returns Promise with component source code or null if not found locally
+ * Watch the local repository's components and themes directories and drop
+ * the cached entries of edited files as soon as they are saved
+ * @param onChange Called after each batch of changes has been invalidated
+ * @returns The repository-relative directories being watched
  */
-async function getComponentSourceLocal(componentName: string): Promise<string | null> {
-  if (!localRepoPath) return null;
-  
-  const componentPath = path.join(localRepoPath, COMPONENTS_PATH, componentName, `${componentName}.tsx`);
-  
-  try {
-    return fs.readFileSync(componentPath, 'utf8');
-  } catch (error) {
-    return null; // Fall back to GitHub API
+function watchLocalRepository(
+  onChange: (change: LocalRepositoryChange) => void,
+): string[] {
+  if (!localRepoPath) {
+    throw new Error("No local Grafana repository configured");
   }
+
+  localWatcher?.close();
+  localWatcher = new RepoWatcher(
+    localRepoPath,
+    [COMPONENTS_PATH, ...THEME_DIRECTORIES],
+    (change) => {
+      invalidateLocalChanges(change)
+        .then(onChange)
+        .catch((error) =>
+          console.error("Failed to invalidate local changes:", error),
+        );
+    },
+  );
+  return localWatcher.start();
 }
 
 /**
- * Fetch component source code from Grafana UI
- * @param componentName Name of the component (e.g., "Button", "Alert")
- * @returns Promise with component source code
+ * Stop watching the local repository
+ */
+function unwatchLocalRepository(): void {
+  localWatcher?.close();
+  localWatcher = null;
+}
+
+/**
+ * Drop the cached entries affected by edits to local files: the files
+ * themselves, listings and trees of their directories, the components
+ * declared next to them, and the export maps built from them
+ * @param change Changed repository-relative paths
+ * @returns Promise with the change and the components it affected
  */
-async function getComponentSource(componentName: string): Promise<string> {
-  // Try local filesystem first
-  const localSource = await getComponentSourceLocal(componentName);
-  if (localSource !== null) {
-    return localSource;
+async function invalidateLocalChanges(
+  change: RepoChange,
+): Promise<LocalRepositoryChange> {
+  // Names the edited directories' components are exported under, from the
+  // export maps built so far (e.g. "Field" for Forms/Field.tsx)
+  const changedDirectories = new Set(
+    change.paths.map((filePath) =>
+      filePath.slice(0, filePath.lastIndexOf("/")),
+    ),
+  );
+  const components = new Set<string>();
+  for (const { exports } of packageExports.values()) {
+    const targets = await exports.catch(() => null);
+    targets?.forEach((target) => {
+      if (
+        changedDirectories.has(
+          target.file.slice(0, target.file.lastIndexOf("/")),
+        )
+      ) {
+        components.add(target.exportName);
+      }
+    });
+  }
+  // ...and the component directories themselves (files such as
+  // components/index.ts aren't components)
+  for (const filePath of change.paths) {
+    if (filePath.startsWith(`${COMPONENTS_PATH}/`)) {
+      const directory = filePath
+        .slice(COMPONENTS_PATH.length + 1)
+        .split("/")[0];
+      if (!directory.includes(".")) {
+        components.add(directory);
+      }
+    }
   }
 
-  // Fall back to GitHub API
-  const componentPath = `${COMPONENTS_PATH}/${componentName}/${componentName}.tsx`;
+  for (const name of components) {
+    // Compound members are cached as "Card.Heading"
+    grafanaUICache.invalidateComponent(name);
+    cache.deleteByPrefix(`component:${name}.`);
+  }
+  for (const filePath of change.paths) {
+    cache.deleteByPrefix(`file:${filePath}@`);
+    // Listings and trees of every enclosing directory
+    const segments = filePath.split("/");
+    for (let depth = segments.length - 1; depth > 0; depth--) {
+      cache.deleteByPrefix(`directory:${segments.slice(0, depth).join("/")}:`);
+    }
+  }
+  if (change.structural) {
+    cache.deleteByPrefix(grafanaUICache.componentListKey());
+  }
+  packageExports.clear();
 
-  try {
-    const response = await githubRaw.get(`/${componentPath}`);
-    return response.data;
-  } catch (error) {
+  return {
+    ...change,
+    components: [...components].sort(),
+    themes: change.paths.some((filePath) =>
+      THEME_DIRECTORIES.some((directory) =>
+        filePath.startsWith(`${directory}/`),
+      ),
+    ),
+  };
+}
+
+/**
+ * Use an installed @grafana/ui package (from a project's node_modules) as a content source
+ * @param startPath Project directory, node_modules directory or the package directory
+ * @param walkUp Whether to search parent directories for node_modules (auto-detection)
+ * @returns The installed package that was configured
+ */
+function setNodeModulesPackage(
+  startPath: string,
+  walkUp: boolean = false,
+): InstalledPackage {
+  const installed = findInstalledPackage(startPath, walkUp);
+  if (!installed) {
     throw new Error(
-      `Component "${componentName}" not found in ${localRepoPath ? 'local repository or ' : ''}Grafana UI repository`,
+      `No installed @grafana/ui package found from ${startPath}. ` +
+        `Expected node_modules/@grafana/ui/package.json.`,
     );
   }
+
+  nodeModulesSource = new NodeModulesSource(installed);
+  rebuildContentSources();
+  return installed;
 }
 
 /**
- * Get component demo from local filesystem
- * @param componentName Name of the component
- * @returns Promise with component demo code or null if not found locally
+ * Get the installed @grafana/ui package used as a content source, if any
  */
-async function getComponentDemoLocal(componentName: string): Promise<string | null> {
-  if (!localRepoPath) return null;
-  
-  const storyPath = path.join(localRepoPath, COMPONENTS_PATH, componentName, `${componentName}.story.tsx`);
-  
-  try {
-    return fs.readFileSync(storyPath, 'utf8');
-  } catch (error) {
-    return null; // Fall back to GitHub API
-  }
+function getInstalledPackage(): InstalledPackage | null {
+  return nodeModulesSource?.installed ?? null;
 }
 
 /**
- * Fetch component story/example from Grafana UI
- * @param componentName Name of the component
- * @returns Promise with component story code
+ * Get the public exports of the installed @grafana/ui package
+ * @returns Export names, or an empty list when no package is configured
  */
-async function getComponentDemo(componentName: string): Promise<string> {
-  // Try local filesystem first
-  const localDemo = await getComponentDemoLocal(componentName);
-  if (localDemo !== null) {
-    return localDemo;
-  }
+function getInstalledPackageExports(): string[] {
+  return nodeModulesSource?.getExports() ?? [];
+}
+
+/**
+ * Serve every action from an offline snapshot archive
+ * @param filePath Snapshot written by exportSnapshot
+ * @returns The snapshot manifest
+ */
+function loadSnapshot(filePath: string): SnapshotManifest {
+  snapshotSource = new SnapshotSource(readSnapshotFile(filePath), filePath);
+  rebuildContentSources();
+  return snapshotSource.manifest;
+}
 
-  // Fall back to GitHub API
-  const storyPath = `${COMPONENTS_PATH}/${componentName}/${componentName}.story.tsx`;
+/**
+ * Get the manifest of the loaded snapshot, if any
+ */
+function getSnapshotManifest(): SnapshotManifest | null {
+  return snapshotSource?.manifest ?? null;
+}
 
-  try {
-    const response = await githubRaw.get(`/${storyPath}`);
-    return response.data;
-  } catch (error) {
-    throw new Error(
-      `Story for component "${componentName}" not found in ${localRepoPath ? 'local repository or ' : ''}Grafana UI repository`,
-    );
+/**
+ * Rebuild the source chain from the configured local repository and package
+ */
+function rebuildContentSources(): void {
+  packageExports.clear();
+  grafanaUICache.clear();
+  if (snapshotSource) {
+    contentSources.setSources([snapshotSource]);
+    return;
   }
+
+  const sources: Array<ContentSource | null> = [
+    localSource,
+    nodeModulesSource,
+    githubSource,
+  ];
+  contentSources.setSources(
+    sources.filter((source): source is ContentSource => source !== null),
+  );
 }
 
 /**
- * Get available components from local filesystem
- * @returns Promise with list of component names or null if not available locally
+ * Read a fork (or any repository with the Grafana layout) instead of grafana/grafana
+ * @param owner Repository owner
+ * @param repo Repository name
  */
-async function getAvailableComponentsLocal(): Promise<string[] | null> {
-  if (!localRepoPath) return null;
-  
-  const componentsPath = path.join(localRepoPath, COMPONENTS_PATH);
-  
-  try {
-    const items = fs.readdirSync(componentsPath, { withFileTypes: true });
-    return items
-      .filter(item => item.isDirectory())
-      .map(item => item.name)
-      .sort();
-  } catch (error) {
-    return null; // Fall back to GitHub API
-  }
+function setRepository(owner: string, repo: string): void {
+  configuredRepository = parseRepository(`${owner}/${repo}`);
+  githubSource = createGitHubSource(configuredRepository);
+  repositorySources.clear();
+  rebuildContentSources();
 }
 
 /**
- * Fetch all available components from Grafana UI
- * @returns Promise with list of component names
+ * Get the repository read by default
  */
-async function getAvailableComponents(): Promise<string[]> {
-  // Try local filesystem first
-  const localComponents = await getAvailableComponentsLocal();
-  if (localComponents !== null) {
-    return localComponents;
-  }
+function getRepository(): Repository {
+  return { ...configuredRepository };
+}
 
-  // Fall back to GitHub API
-  try {
-    const response = await githubApi.get(
-      `/repos/${REPO_OWNER}/${REPO_NAME}/contents/${COMPONENTS_PATH}`,
-    );
-    return response.data
-      .filter((item: any) => item.type === "dir")
-      .map((item: any) => item.name);
-  } catch (error) {
+/**
+ * Parse an "owner/name" repository spec
+ * @param spec Repository in "owner/name" form
+ * @returns The parsed repository
+ */
+function parseRepository(spec: string): Repository {
+  const match = spec.trim().match(/^([\w.-]+)\/([\w.-]+)$/);
+  if (!match) {
     throw new Error(
-      `Failed to fetch available components from ${localRepoPath ? 'local repository or ' : ''}Grafana UI`
+      `Invalid repository "${spec}". Expected "owner/name", e.g. "grafana/grafana".`,
     );
   }
+  return { owner: match[1], repo: match[2] };
 }
 
 /**
- * Get component metadata from local filesystem
- * @param componentName Name of the component
- * @returns Promise with component metadata or null if not available locally
+ * Build a per-call repository override from optional owner/repo arguments
+ * Missing parts default to the configured repository
+ * @returns The override, or undefined when neither part is given
  */
-async function getComponentMetadataLocal(componentName: string): Promise<any | null> {
-  if (!localRepoPath) return null;
-  
-  const componentPath = path.join(localRepoPath, COMPONENTS_PATH, componentName);
-  
-  try {
-    const items = fs.readdirSync(componentPath, { withFileTypes: true });
-    const files = items
-      .filter(item => item.isFile())
-      .map(item => item.name);
-
-    // Basic metadata from file structure
-    return {
-      name: componentName,
-      type: "grafana-ui-component",
-      source: "local",
-      files: files,
-      hasImplementation: files.includes(`${componentName}.tsx`),
-      hasStories: files.some((file) => file.endsWith(".story.tsx")),
-      hasDocumentation: files.includes(`${componentName}.mdx`),
-      hasTests: files.some((file) => file.endsWith(".test.tsx")),
-      hasTypes: files.includes("types.ts"),
-      hasUtils: files.includes("utils.ts"),
-      hasStyles: files.includes("styles.ts"),
-      totalFiles: files.length,
-    };
-  } catch (error) {
-    return null; // Fall back to GitHub API
+function resolveRepository(
+  owner?: string,
+  repo?: string,
+): Repository | undefined {
+  if (!owner && !repo) {
+    return undefined;
   }
+  return parseRepository(
+    `${owner || configuredRepository.owner}/${repo || configuredRepository.repo}`,
+  );
 }
 
 /**
- * Fetch component files and extract basic metadata from Grafana UI
- * @param componentName Name of the component
- * @returns Promise with component metadata
+ * Get the content sources serving a repository
+ * The configured repository uses the full chain (local, package, GitHub);
+ * any other repository is read from GitHub only
+ * @param repository Optional per-call repository override
  */
-async function getComponentMetadata(componentName: string): Promise<any> {
-  // Try local filesystem first
-  const localMetadata = await getComponentMetadataLocal(componentName);
-  if (localMetadata !== null) {
-    return localMetadata;
+function sourcesFor(repository?: Repository): ContentSourceChain {
+  if (
+    !repository ||
+    (repository.owner === configuredRepository.owner &&
+      repository.repo === configuredRepository.repo)
+  ) {
+    return contentSources;
   }
 
-  // Fall back to GitHub API
-  try {
-    // Get the component directory contents
-    const response = await githubApi.get(
-      `/repos/${REPO_OWNER}/${REPO_NAME}/contents/${COMPONENTS_PATH}/${componentName}`,
-    );
-
-    if (!Array.isArray(response.data)) {
-      return null;
-    }
-
-    const files = response.data.map((item: any) => item.name);
-
-    // Basic metadata from file structure
-    return {
-      name: componentName,
-      type: "grafana-ui-component",
-      source: "github",
-      files: files,
-      hasImplementation: files.includes(`${componentName}.tsx`),
-      hasStories: files.some((file) => file.endsWith(".story.tsx")),
-      hasDocumentation: files.includes(`${componentName}.mdx`),
-      hasTests: files.some((file) => file.endsWith(".test.tsx")),
-      hasTypes: files.includes("types.ts"),
-      hasUtils: files.includes("utils.ts"),
-      hasStyles: files.includes("styles.ts"),
-      totalFiles: files.length,
-    };
-  } catch (error) {
-    console.error(`Error getting metadata for ${componentName}:`, error);
-    return null;
+  const key = `${repository.owner}/${repository.repo}`;
+  let sources = repositorySources.get(key);
+  if (!sources) {
+    sources = new ContentSourceChain([createGitHubSource(repository)]);
+    repositorySources.set(key, sources);
   }
+  return sources;
 }
 
 /**
- * Recursively builds a directory tree structure from a GitHub repository
- * @param owner Repository owner
- * @param repo Repository name
- * @param path Path within the repository to start building the tree from
- * @param branch Branch name
- * @returns Promise resolving to the directory tree structure
+ * Replace the content sources used by every getter
+ * @param sources Sources to try, in order
  */
-async function buildDirectoryTree(
-  owner: string = REPO_OWNER,
-  repo: string = REPO_NAME,
-  path: string = COMPONENTS_PATH,
-  branch: string = REPO_BRANCH,
-): Promise<any> {
-  try {
-    const response = await githubApi.get(
-      `/repos/${owner}/${repo}/contents/${path}?ref=${branch}`,
-    );
+function setContentSources(sources: ContentSource[]): void {
+  packageExports.clear();
+  grafanaUICache.clear();
+  contentSources.setSources(sources);
+}
 
-    if (!response.data) {
-      throw new Error("No data received from GitHub API");
-    }
+/**
+ * Keep cached GitHub content on disk, shared across restarts and with other
+ * server processes on the machine
+ * @param options Cache directory and size cap, or null to cache in memory only
+ * @returns The disk cache, or null when disabled
+ */
+function setDiskCache(options: DiskCacheOptions | null): DiskCache | null {
+  const disk = options ? new DiskCache(options) : null;
+  cache.setDiskCache(disk);
+  disk
+    ?.prune()
+    .catch((error) => console.error("Failed to prune the disk cache:", error));
+
+  // GitHub sources store downloaded files in the disk cache by blob SHA
+  githubSource = createGitHubSource(configuredRepository);
+  repositorySources.clear();
+  rebuildContentSources();
+  return disk;
+}
 
-    const contents = response.data;
+/**
+ * Bound the in-memory cache
+ * @param limits Maximum entries and bytes (LRU eviction beyond them) and the
+ * interval of the sweep of expired entries; 0 disables a limit
+ */
+function setCacheLimits(limits: Partial<CacheLimits>): void {
+  cache.configure(limits);
+}
 
-    // Handle different response types from GitHub API
-    if (!Array.isArray(contents)) {
-      // Check if it's an error response (like rate limit)
-      if (contents.message) {
-        if (contents.message.includes("rate limit exceeded")) {
-          throw new Error(
-            `GitHub API rate limit exceeded. ${contents.message} Consider setting GITHUB_PERSONAL_ACCESS_TOKEN or GITHUB_TOKEN environment variable for higher rate limits.`,
-          );
-        } else if (contents.message.includes("Not Found")) {
-          throw new Error(
-            `Path not found: ${path}. The path may not exist in the repository.`,
-          );
-        } else {
-          throw new Error(`GitHub API error: ${contents.message}`);
-        }
-      }
+/**
+ * Get the limits of the in-memory cache
+ */
+function getCacheLimits(): CacheLimits {
+  return cache.getLimits();
+}
 
-      // If contents is not an array, it might be a single file
-      if (contents.type === "file") {
-        return {
-          path: contents.path,
-          type: "file",
-          name: contents.name,
-          url: contents.download_url,
-          sha: contents.sha,
-        };
-      } else {
-        throw new Error(
-          `Unexpected response type from GitHub API: ${JSON.stringify(contents)}`,
-        );
-      }
-    }
+/**
+ * Get hit, miss and eviction counters and sizes of the memory and disk tiers
+ * @returns Promise with the cache statistics
+ */
+async function getCacheStats(): Promise<{
+  memory: CacheStats;
+  disk: DiskCacheStats | null;
+}> {
+  const disk = cache.getDiskCache();
+  return {
+    memory: grafanaUICache.getStats(),
+    disk: disk ? await disk.getStats() : null,
+  };
+}
 
-    // Build tree node for this level (directory with multiple items)
-    const result: Record<string, any> = {
-      path,
-      type: "directory",
-      children: {},
+/**
+ * Drop cached values from memory and disk
+ * A full clear also drops the GitHub tree indexes, export maps and stored
+ * conditional responses, which are derived from the same content
+ * @param prefix Only drop keys starting with this prefix (e.g. "component:Button:")
+ * @returns Promise with the number of memory entries and disk files deleted
+ */
+async function clearCache(
+  prefix?: string,
+): Promise<{ memory: number; disk: number }> {
+  const disk = cache.getDiskCache();
+  if (prefix) {
+    return {
+      memory: cache.deleteByPrefix(prefix),
+      disk: disk ? await disk.deleteByPrefix(prefix) : 0,
     };
+  }
 
-    // Process each item
-    for (const item of contents) {
-      if (item.type === "file") {
-        // Add file to this directory's children
-        result.children[item.name] = {
-          path: item.path,
-          type: "file",
-          name: item.name,
-          url: item.download_url,
-          sha: item.sha,
-        };
-      } else if (item.type === "dir") {
-        // Recursively process subdirectory (limit depth to avoid infinite recursion)
-        if (path.split("/").length < 8) {
-          try {
-            const subTree = await buildDirectoryTree(
-              owner,
-              repo,
-              item.path,
-              branch,
-            );
-            result.children[item.name] = subTree;
-          } catch (error) {
-            console.warn(`Failed to fetch subdirectory ${item.path}:`, error);
-            result.children[item.name] = {
-              path: item.path,
-              type: "directory",
-              error: "Failed to fetch contents",
-            };
-          }
-        }
+  const memory = cache.size();
+  grafanaUICache.clear();
+  packageExports.clear();
+  githubHttpCache.clear();
+  for (const chain of [contentSources, ...repositorySources.values()]) {
+    for (const source of chain.getSources()) {
+      if (source instanceof GitHubSource) {
+        source.clearIndexes();
       }
     }
+  }
+  return { memory, disk: disk ? await disk.clear() : 0 };
+}
 
-    return result;
-  } catch (error: any) {
-    console.error(`Error building directory tree for ${path}:`, error);
-
-    // Check if it's already a well-formatted error from above
-    if (
-      error.message &&
-      (error.message.includes("rate limit") ||
-        error.message.includes("GitHub API error"))
-    ) {
-      throw error;
-    }
+/**
+ * Fetch the source, metadata, stories and docs of components into the cache
+ * @param componentNames Components to cache (default: commonly used ones)
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @returns Promise with the scope and how many values were cached or failed
+ */
+async function warmCache(
+  componentNames?: string[],
+  ref?: string,
+  repository?: Repository,
+): Promise<{
+  scope: string;
+  components: string[];
+  cached: number;
+  failed: number;
+}> {
+  // Cached under the names requests are keyed by
+  const components = await Promise.all(
+    (componentNames?.length ? componentNames : WARM_UP_COMPONENTS).map((name) =>
+      canonicalComponentName(name, ref, repository).catch(() => name),
+    ),
+  );
+  const scope = cacheScope(ref, repository);
+  const file = (name: string, suffix: string, label: string) =>
+    getComponentFile(name, suffix, `${label} "${name}"`, ref, repository);
+
+  const result = await grafanaUICache.warmUp(
+    components,
+    {
+      getComponentSource: (name) => file(name, ".tsx", "Component"),
+      getComponentMetadata: (name) =>
+        readComponentMetadata(name, ref, repository),
+      getComponentStories: (name) =>
+        file(name, ".story.tsx", "Story for component"),
+      getComponentDocs: (name) =>
+        file(name, ".mdx", "Documentation for component"),
+    },
+    scope,
+  );
+  return { scope: scope.key, components, ...result };
+}
 
-    // Provide more specific error messages for HTTP errors
-    if (error.response) {
-      const status = error.response.status;
-      const responseData = error.response.data;
-      const message = responseData?.message || "Unknown error";
+/**
+ * Set the server-wide default git ref used when a request doesn't specify one
+ * @param ref Branch, tag or commit SHA (null restores the working tree / "main")
+ */
+function setDefaultRef(ref: string | null): void {
+  const trimmed = ref && ref.trim() ? ref.trim() : null;
+  if (trimmed && !isValidGitRef(trimmed)) {
+    throw new Error(
+      `Invalid git ref "${trimmed}". Expected a branch, tag or commit SHA.`,
+    );
+  }
+  defaultRef = trimmed;
+}
 
-      if (status === 404) {
-        throw new Error(
-          `Path not found: ${path}. The path may not exist in the repository.`,
-        );
-      } else if (status === 403) {
-        if (message.includes("rate limit")) {
-          throw new Error(
-            `GitHub API rate limit exceeded: ${message} Consider setting GITHUB_PERSONAL_ACCESS_TOKEN or GITHUB_TOKEN environment variable for higher rate limits.`,
-          );
-        } else {
-          throw new Error(`Access forbidden: ${message}`);
-        }
-      } else if (status === 401) {
-        throw new Error(
-          `Authentication failed. Please check your GITHUB_PERSONAL_ACCESS_TOKEN or GITHUB_TOKEN if provided.`,
-        );
-      } else {
-        throw new Error(`GitHub API error (${status}): ${message}`);
-      }
-    }
+/**
+ * Get the server-wide default git ref
+ * @returns The configured ref or null when none is set
+ */
+function getDefaultRef(): string | null {
+  return defaultRef;
+}
 
-    throw error;
-  }
+/**
+ * Resolve the ref to read at, falling back to the server-wide default
+ * @param ref Optional per-request ref
+ * @returns The ref to pass to the content sources, or undefined for their defaults
+ */
+function effectiveRef(ref?: string): string | undefined {
+  return ref || defaultRef || undefined;
 }
 
 /**
- * Provides a basic directory structure for Grafana UI components without API calls
- * This is used as a fallback when API rate limits are hit
+ * Identify what a cached value is read from: the content sources, the
+ * repository and the ref. The ref also decides the value's TTL (see
+ * GrafanaUICache).
+ * @param ref Optional per-request ref
+ * @param repository Optional repository override (defaults to the configured repository)
  */
-function getBasicGrafanaUIStructure(): any {
+function cacheScope(ref?: string, repository?: Repository): CacheScope {
+  const resolvedRef = effectiveRef(ref);
+  const { owner, repo } = repository || configuredRepository;
+  const names = sourcesFor(repository)
+    .getSources()
+    .map((source) => source.name);
+  const host = new URL(String(githubApi.defaults.baseURL)).host;
   return {
-    path: COMPONENTS_PATH,
-    type: "directory",
-    note: "Basic structure provided due to API limitations",
-    description: "Grafana UI components directory",
-    children: {
-      Button: {
-        path: `${COMPONENTS_PATH}/Button`,
-        type: "directory",
-        description: "Button component with variants and sizes",
-        files: [
-          "Button.tsx",
-          "Button.mdx",
-          "Button.story.tsx",
-          "Button.test.tsx",
-        ],
-      },
-      Alert: {
-        path: `${COMPONENTS_PATH}/Alert`,
-        type: "directory",
-        description: "Alert component for notifications",
-        files: ["Alert.tsx", "Alert.mdx", "Alert.test.tsx"],
-      },
-      Input: {
-        path: `${COMPONENTS_PATH}/Input`,
-        type: "directory",
-        description: "Input components for forms",
-        files: ["Input.tsx", "Input.mdx", "Input.story.tsx"],
-      },
-    },
+    key: `${names.join("+")}:${host}/${owner}/${repo}@${resolvedRef ?? "default"}`,
+    ref: resolvedRef,
+    // Only GitHub content is worth keeping across restarts
+    persistent: names.every((name) => name === "github"),
   };
 }
 
 /**
- * Enhanced buildDirectoryTree with fallback for rate limits
+ * Read a file through the content sources and the cache
+ * Missing files (null) and failed reads are not cached
+ * @param filePath Path within the repository
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
  */
-async function buildDirectoryTreeWithFallback(
-  owner: string = REPO_OWNER,
-  repo: string = REPO_NAME,
-  path: string = COMPONENTS_PATH,
-  branch: string = REPO_BRANCH,
-): Promise<any> {
-  try {
-    return await buildDirectoryTree(owner, repo, path, branch);
-  } catch (error: any) {
-    // If it's a rate limit error and we're asking for the default components path, provide fallback
-    if (
-      error.message &&
-      error.message.includes("rate limit") &&
-      path === COMPONENTS_PATH
-    ) {
-      console.warn("Using fallback directory structure due to rate limit");
-      return getBasicGrafanaUIStructure();
-    }
-    // Re-throw other errors
-    throw error;
+async function readRepositoryFile(
+  filePath: string,
+  ref?: string,
+  repository?: Repository,
+): Promise<SourceFile | null> {
+  const file = await grafanaUICache.getOrFetchFile(
+    filePath,
+    () => sourcesFor(repository).readFile(filePath, effectiveRef(ref)),
+    cacheScope(ref, repository),
+  );
+  if (file && snapshotRecording && !repository) {
+    snapshotRecording.archive.files[file.path] = file.content;
+    snapshotRecording.sources.add(file.source);
   }
+  return file;
 }
 
 /**
- * Get component documentation from local filesystem
- * @param componentName Name of the component
- * @returns Promise with component documentation or null if not found locally
+ * List a directory through the content sources and the cache
+ * @param dirPath Path within the repository
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
  */
-async function getComponentDocumentationLocal(componentName: string): Promise<string | null> {
-  if (!localRepoPath) return null;
-  
-  const docPath = path.join(localRepoPath, COMPONENTS_PATH, componentName, `${componentName}.mdx`);
-  
-  try {
-    return fs.readFileSync(docPath, 'utf8');
-  } catch (error) {
-    return null; // Fall back to GitHub API
+async function listRepositoryDir(
+  dirPath: string,
+  ref?: string,
+  repository?: Repository,
+): Promise<SourceListing | null> {
+  const listing = await grafanaUICache.getOrFetchDirectoryListing(
+    dirPath,
+    () => sourcesFor(repository).listDir(dirPath, effectiveRef(ref)),
+    cacheScope(ref, repository),
+  );
+  if (listing && snapshotRecording && !repository) {
+    snapshotRecording.archive.directories[listing.path] = listing.entries;
+    snapshotRecording.sources.add(listing.source);
   }
+  return listing;
 }
 
 /**
- * Fetch component documentation from Grafana UI
- * @param componentName Name of the component
- * @returns Promise with component MDX documentation
+ * Describe a ref for error messages
  */
-async function getComponentDocumentation(
-  componentName: string,
-): Promise<string> {
-  // Try local filesystem first
-  const localDocs = await getComponentDocumentationLocal(componentName);
-  if (localDocs !== null) {
-    return localDocs;
-  }
-
-  // Fall back to GitHub API
-  const docPath = `${COMPONENTS_PATH}/${componentName}/${componentName}.mdx`;
+function atRef(ref?: string): string {
+  const resolved = effectiveRef(ref);
+  return resolved ? ` at ref "${resolved}"` : "";
+}
 
-  try {
-    const response = await githubRaw.get(`/${docPath}`);
-    return response.data;
-  } catch (error) {
-    throw new Error(
-      `Documentation for component "${componentName}" not found in ${localRepoPath ? 'local repository or ' : ''}Grafana UI repository`,
-    );
-  }
+export interface ResolvedComponent {
+  /** Name as requested (e.g. "Card.Heading") */
+  name: string;
+  /** Export the name resolves through (e.g. "Card") */
+  exportName: string;
+  /** Member of a compound component (e.g. "Heading"), if any */
+  member: string | null;
+  /** File declaring the component */
+  file: string;
+  /** Directory holding the component's stories, docs and tests */
+  directory: string;
+  /** Whether the @grafana/ui export map or the components/<Name>/<Name>.tsx convention located the file */
+  resolvedBy: "exports" | "convention";
+  /** How the requested name matched ("exact", or the correction applied, e.g. "case") */
+  matchedBy: MatchReason;
 }
 
 /**
- * Get component files from Grafana UI directory
- * @param componentName Name of the component
- * @returns Promise with all component files
+ * Locate a component by the name it is imported under from '@grafana/ui'
+ * Names are looked up in the package's export map, so components in shared
+ * folders (Forms), nested ones (Layout/Stack) and compound members
+ * (Card.Heading) resolve; names missing from the map, or a tree without
+ * barrel files, fall back to components/<Name>/<Name>.tsx.
+ * @param componentName Export name, optionally with a member (e.g. "Card.Heading")
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @returns Promise with the resolved component
  */
-async function getComponentFiles(componentName: string): Promise<any> {
-  try {
-    const response = await githubApi.get(
-      `/repos/${REPO_OWNER}/${REPO_NAME}/contents/${COMPONENTS_PATH}/${componentName}`,
+async function resolveComponent(
+  componentName: string,
+  ref?: string,
+  repository?: Repository,
+): Promise<ResolvedComponent> {
+  const [requestedExport, ...members] = componentName.trim().split(".");
+  let exportName = requestedExport;
+  let matchedBy: MatchReason = "exact";
+  const sources = sourcesFor(repository);
+
+  const exports = await getPackageExports(
+    DEFAULT_PACKAGE,
+    ref,
+    repository,
+  ).catch(() => null);
+
+  if (!exports?.has(exportName)) {
+    const directories = await getAvailableComponents(ref, repository).catch(
+      (): string[] => [],
     );
-
-    if (!Array.isArray(response.data)) {
-      throw new Error(`Component directory "${componentName}" not found`);
+    const candidates = [...(exports?.keys() ?? []), ...directories];
+    // Without anything to compare against, the convention path is the best guess
+    if (candidates.length > 0 && !directories.includes(exportName)) {
+      const match = resolveName(exportName, candidates);
+      if (!match.name) {
+        throw new NameNotFoundError(
+          requestedExport,
+          match.suggestions,
+          `Component "${componentName}" not found in ${sources.describe()}${atRef(ref)}`,
+        );
+      }
+      exportName = match.name;
+      matchedBy = match.reason!;
     }
+  }
 
-    const componentFiles: any = {
-      name: componentName,
-      path: `${COMPONENTS_PATH}/${componentName}`,
-      files: {},
-    };
+  const target = exports?.get(exportName);
+  const file = target
+    ? target.file
+    : `${COMPONENTS_PATH}/${exportName}/${exportName}.tsx`;
+  const resolved: ResolvedComponent = {
+    name: componentName,
+    exportName,
+    member: members.join(".") || null,
+    file,
+    directory: file.slice(0, file.lastIndexOf("/")),
+    resolvedBy: target ? "exports" : "convention",
+    matchedBy,
+  };
+  if (!resolved.member) {
+    return resolved;
+  }
 
-    // Fetch each file's content
-    for (const item of response.data) {
-      if (item.type === "file") {
-        try {
-          const fileResponse = await githubRaw.get(`/${item.path}`);
-          componentFiles.files[item.name] = {
-            name: item.name,
-            content: fileResponse.data,
-            size: fileResponse.data.length,
-            path: item.path,
-          };
-        } catch (error) {
-          // If individual file fails, mark it as unavailable
-          componentFiles.files[item.name] = {
-            name: item.name,
-            content: null,
-            error: "Failed to fetch file content",
-            path: item.path,
-          };
-        }
-      }
-    }
+  // Compound members are attached with `Card.Heading = Heading;`
+  const parent = await readRepositoryFile(file, ref, repository);
+  const localName = target?.localName ?? exportName;
+  const assignments = new Map<string, string | undefined>();
+  for (const match of parent?.content.matchAll(
+    new RegExp(`^\\s*${localName}\\.([\\w$]+)\\s*=\\s*([\\w$]+)?`, "gm"),
+  ) ?? []) {
+    assignments.set(match[1], match[2]);
+  }
 
-    return componentFiles;
-  } catch (error: any) {
-    if (error.response?.status === 404) {
-      throw new Error(
-        `Component "${componentName}" not found in Grafana UI repository.`,
+  if (!assignments.has(resolved.member)) {
+    const match = resolveName(resolved.member, assignments.keys());
+    if (!match.name) {
+      throw new NameNotFoundError(
+        resolved.member,
+        match.suggestions.map((suggestion) => ({
+          ...suggestion,
+          name: `${exportName}.${suggestion.name}`,
+        })),
+        `Component "${componentName}" not found in ${sources.describe()}${atRef(ref)}: ${exportName} has no "${resolved.member}" member`,
       );
     }
-    throw error;
+    resolved.member = match.name;
+    resolved.matchedBy = match.reason!;
   }
-}
 
-/**
- * Set or update GitHub API key for higher rate limits
- * @param apiKey GitHub Personal Access Token
- */
-function setGitHubApiKey(apiKey: string): void {
-  // Update the Authorization header for the GitHub API instance
-  if (apiKey && apiKey.trim()) {
-    (githubApi.defaults.headers as any)["Authorization"] =
-      `Bearer ${apiKey.trim()}`;
-    console.log("GitHub API key updated successfully");
-  } else {
-    // Remove authorization header if empty key provided
-    delete (githubApi.defaults.headers as any)["Authorization"];
-    console.log("GitHub API key removed - using unauthenticated requests");
+  const assigned = assignments.get(resolved.member);
+  if (assigned) {
+    const declaration = await createExportMapBuilder(
+      ref,
+      repository,
+    ).findDeclaration(file, assigned);
+    if (declaration) {
+      resolved.file = declaration.file;
+    }
   }
+  return resolved;
 }
 
 /**
- * Get current GitHub API rate limit status
- * @returns Promise with rate limit information
+ * Name a component's cache entries are keyed by: its export name, with the
+ * member for compound members ("Card.Heading"), so fuzzy or differently cased
+ * requests share the entries that invalidation drops
+ * @param componentName Name as requested
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @returns Promise with the canonical name
+ */
+async function canonicalComponentName(
+  componentName: string,
+  ref?: string,
+  repository?: Repository,
+): Promise<string> {
+  const component = await resolveComponent(componentName, ref, repository);
+  return component.member
+    ? `${component.exportName}.${component.member}`
+    : component.exportName;
+}
+
+/**
+ * Read a file belonging to a resolved component
+ * The implementation is the resolved file itself; stories, docs and tests
+ * sit next to it, named after the file or the export
+ * @param component Resolved component
+ * @param suffix File suffix (".tsx", ".story.tsx", ".mdx", ".test.tsx")
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @returns Promise with the file, or null when the component has no such file
+ */
+async function readComponentFile(
+  component: ResolvedComponent,
+  suffix: string,
+  ref?: string,
+  repository?: Repository,
+): Promise<SourceFile | null> {
+  if (suffix === ".tsx") {
+    return readRepositoryFile(component.file, ref, repository);
+  }
+
+  const fileBase = component.file
+    .slice(component.file.lastIndexOf("/") + 1)
+    .replace(/\.tsx?$/, "");
+  for (const base of new Set([fileBase, component.exportName])) {
+    const file = await readRepositoryFile(
+      `${component.directory}/${base}${suffix}`,
+      ref,
+      repository,
+    );
+    if (file) {
+      return file;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read a file belonging to a component through the configured sources
+ * @param componentName Export name of the component (e.g. "Button", "Card.Heading")
+ * @param suffix File suffix (".tsx", ".story.tsx", ".mdx", ".test.tsx")
+ * @param label Description of the file used in the not-found error
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @returns Promise with the file content and the source that served it
+ */
+async function getComponentFile(
+  componentName: string,
+  suffix: string,
+  label: string,
+  ref?: string,
+  repository?: Repository,
+): Promise<SourceFile> {
+  const component = await resolveComponent(componentName, ref, repository);
+  const file = await readComponentFile(component, suffix, ref, repository);
+
+  if (!file) {
+    throw new Error(
+      `${label} not found in ${sourcesFor(repository).describe()}${atRef(ref)}`,
+    );
+  }
+  return file;
+}
+
+/**
+ * Fetch component source code from Grafana UI
+ * @param componentName Name of the component (e.g., "Button", "Alert")
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @returns Promise with component source code
+ */
+async function getComponentSource(
+  componentName: string,
+  ref?: string,
+  repository?: Repository,
+): Promise<SourceFile> {
+  const name = await canonicalComponentName(componentName, ref, repository);
+  return grafanaUICache.getOrFetchComponentSource(
+    name,
+    () =>
+      getComponentFile(name, ".tsx", `Component "${name}"`, ref, repository),
+    cacheScope(ref, repository),
+  );
+}
+
+/**
+ * Fetch component story/example from Grafana UI
+ * @param componentName Name of the component
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @returns Promise with component story code
  */
-async function getGitHubRateLimit(): Promise<any> {
+async function getComponentDemo(
+  componentName: string,
+  ref?: string,
+  repository?: Repository,
+): Promise<SourceFile> {
+  const name = await canonicalComponentName(componentName, ref, repository);
+  return grafanaUICache.getOrFetchComponentStories(
+    name,
+    () =>
+      getComponentFile(
+        name,
+        ".story.tsx",
+        `Story for component "${name}"`,
+        ref,
+        repository,
+      ),
+    cacheScope(ref, repository),
+  );
+}
+
+/**
+ * Fetch all available components from Grafana UI
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @returns Promise with list of component names
+ */
+async function getAvailableComponents(
+  ref?: string,
+  repository?: Repository,
+): Promise<string[]> {
+  const sources = sourcesFor(repository);
   try {
-    const response = await githubApi.get("/rate_limit");
-    return response.data;
-  } catch (error: any) {
-    throw new Error(`Failed to get rate limit info: ${error.message}`);
+    return await grafanaUICache.getOrFetchComponentList(
+      async () => {
+        const listing = await sources.listDir(
+          COMPONENTS_PATH,
+          effectiveRef(ref),
+        );
+        if (!listing) {
+          throw new Error(`${COMPONENTS_PATH} not found`);
+        }
+        return listing.entries
+          .filter((entry) => entry.type === "dir")
+          .map((entry) => entry.name)
+          .sort();
+      },
+      cacheScope(ref, repository),
+    );
+  } catch (error) {
+    throw new Error(
+      `Failed to fetch available components from ${sources.describe()}${atRef(ref)}`,
+    );
   }
 }
 
 /**
- * Get component tests from local filesystem
+ * Fetch component files and extract metadata and props from Grafana UI
  * @param componentName Name of the component
- * @returns Promise with component test code or null if not found locally
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @param includeDomProps Whether to list the DOM attributes the component passes through (default: true)
+ * @returns Promise with component metadata
  */
-async function getComponentTestsLocal(componentName: string): Promise<string | null> {
-  if (!localRepoPath) return null;
-  
-  const testPath = path.join(localRepoPath, COMPONENTS_PATH, componentName, `${componentName}.test.tsx`);
-  
+async function getComponentMetadata(
+  componentName: string,
+  ref?: string,
+  repository?: Repository,
+  includeDomProps: boolean = true,
+): Promise<ComponentMetadataResult | null> {
   try {
-    return fs.readFileSync(testPath, 'utf8');
+    const name = await canonicalComponentName(componentName, ref, repository);
+    const metadata: ComponentMetadataResult | null =
+      await grafanaUICache.getOrFetchComponentMetadata(
+        name,
+        () => readComponentMetadata(name, ref, repository),
+        cacheScope(ref, repository),
+      );
+    // Filtered after the cache, so both variants share one entry
+    return metadata && !includeDomProps
+      ? {
+          ...metadata,
+          props: metadata.props.filter((prop) => prop.origin !== "dom"),
+        }
+      : metadata;
   } catch (error) {
-    return null; // Fall back to GitHub API
+    // Unknown names carry suggestions the caller should see
+    if (error instanceof NameNotFoundError) {
+      throw error;
+    }
+    console.error(`Error getting metadata for ${componentName}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Read the metadata returned by getComponentMetadata, bypassing the cache
+ * @returns Promise with component metadata, or null when the directory is missing
+ */
+async function readComponentMetadata(
+  componentName: string,
+  ref?: string,
+  repository?: Repository,
+): Promise<ComponentMetadataResult | null> {
+  const component = await resolveComponent(componentName, ref, repository);
+  const listing = await listRepositoryDir(component.directory, ref, repository);
+
+  if (!listing) {
+    return null;
+  }
+
+  const files = listing.entries
+    .filter((entry) => entry.type === "file")
+    .map((entry) => entry.name);
+  const fileName = component.file.slice(component.file.lastIndexOf("/") + 1);
+
+  // Props come from the declaring file; compound members (Card.Heading) are
+  // declared under the member's name
+  const implementation = await readComponentFile(
+    component,
+    ".tsx",
+    ref,
+    repository,
+  );
+  const parsed = implementation
+    ? await parseComponentMetadata(
+        component.member ?? component.exportName,
+        implementation.content,
+        implementation.path,
+        createPropTypeReader(ref, repository),
+      )
+    : null;
+  const props = parsed?.props ?? [];
+
+  // The export map also knows deprecations the parser can't attribute, e.g.
+  // when the component's declaration isn't recognized
+  const exported = component.member
+    ? undefined
+    : (
+        await getPackageExports(DEFAULT_PACKAGE, ref, repository).catch(
+          () => null,
+        )
+      )?.get(component.exportName);
+
+  // Metadata from file structure plus the parsed props
+  return {
+    name: componentName,
+    type: "grafana-ui-component",
+    source: listing.source,
+    ref: effectiveRef(ref) || null,
+    exportName: component.exportName,
+    file: component.file,
+    directory: component.directory,
+    resolvedBy: component.resolvedBy,
+    description: parsed?.description ?? null,
+    deprecation:
+      parsed?.deprecation ??
+      (exported ? describeExport(exported).deprecation : null),
+    propsType: parsed?.propsType ?? null,
+    props,
+    deprecatedProps: props.flatMap((prop) =>
+      prop.deprecation ? [{ name: prop.name, ...prop.deprecation }] : [],
+    ),
+    propCounts: {
+      own: props.filter((prop) => prop.origin === "own").length,
+      inherited: props.filter((prop) => prop.origin === "inherited").length,
+      dom: props.filter((prop) => prop.origin === "dom").length,
+    },
+    externalPropTypes: parsed?.externalPropTypes ?? [],
+    files: files,
+    hasImplementation: files.includes(fileName),
+    hasStories: files.some((file) => file.endsWith(".story.tsx")),
+    hasDocumentation: files.some((file) => file.endsWith(".mdx")),
+    hasTests: files.some((file) => file.endsWith(".test.tsx")),
+    hasTypes: files.includes("types.ts"),
+    hasUtils: files.includes("utils.ts"),
+    hasStyles: files.includes("styles.ts"),
+    totalFiles: files.length,
+  };
+}
+
+/**
+ * Builds a directory tree by walking the configured content sources
+ * File nodes carry path, name, url and blob sha; directories carry children
+ * @param path Path within the repository to start building the tree from
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @returns Promise resolving to the directory tree structure
+ */
+async function buildDirectoryTreeFromSources(
+  path: string = COMPONENTS_PATH,
+  ref?: string,
+  repository?: Repository,
+): Promise<any> {
+  return grafanaUICache.getOrFetchDirectoryStructure(
+    path,
+    () => walkDirectoryTree(path, ref, repository),
+    cacheScope(ref, repository),
+  );
+}
+
+/**
+ * Walk the content sources for buildDirectoryTreeFromSources
+ * Subdirectories go through buildDirectoryTreeFromSources, so each level is
+ * cached on its own
+ */
+async function walkDirectoryTree(
+  path: string,
+  ref?: string,
+  repository?: Repository,
+): Promise<any> {
+  const sources = sourcesFor(repository);
+  const listing = await listRepositoryDir(path, ref, repository);
+
+  if (!listing) {
+    const stats = await sources.stat(path, effectiveRef(ref));
+    if (stats?.type === "file") {
+      return {
+        path,
+        type: "file",
+        name: path.split("/").pop(),
+        url: null,
+        sha: stats.sha ?? null,
+      };
+    }
+    throw new Error(
+      `Path not found: ${path}. The path may not exist in the ${sources.describe()}.`,
+    );
+  }
+
+  const result: Record<string, any> = {
+    path,
+    type: "directory",
+    source: listing.source,
+    children: {},
+  };
+
+  for (const entry of listing.entries) {
+    if (entry.type === "file") {
+      result.children[entry.name] = {
+        path: entry.path,
+        type: "file",
+        name: entry.name,
+        url: entry.url ?? null,
+        sha: entry.sha ?? null,
+      };
+    } else if (path.split("/").length < 8) {
+      try {
+        result.children[entry.name] = await buildDirectoryTreeFromSources(
+          entry.path,
+          ref,
+          repository,
+        );
+      } catch (error) {
+        result.children[entry.name] = {
+          path: entry.path,
+          type: "directory",
+          error: "Failed to fetch contents",
+        };
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Build a directory tree for any repository
+ * The configured repository is walked through the full source chain (local
+ * checkout, snapshot, package, GitHub); others through GitHub, where paths
+ * under packages/grafana-ui come from one tree index per ref
+ * @param owner Repository owner
+ * @param repo Repository name
+ * @param path Path within the repository to start building the tree from
+ * @param branch Optional branch, tag or SHA
+ * @returns Promise resolving to the directory tree structure
+ */
+async function buildDirectoryTree(
+  owner: string = configuredRepository.owner,
+  repo: string = configuredRepository.repo,
+  path: string = COMPONENTS_PATH,
+  branch?: string,
+): Promise<any> {
+  return buildDirectoryTreeFromSources(path, branch, { owner, repo });
+}
+
+/**
+ * Fetch component documentation from Grafana UI
+ * @param componentName Name of the component
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @returns Promise with component MDX documentation
+ */
+async function getComponentDocumentation(
+  componentName: string,
+  ref?: string,
+  repository?: Repository,
+): Promise<SourceFile> {
+  const name = await canonicalComponentName(componentName, ref, repository);
+  return grafanaUICache.getOrFetchComponentDocs(
+    name,
+    () =>
+      getComponentFile(
+        name,
+        ".mdx",
+        `Documentation for component "${name}"`,
+        ref,
+        repository,
+      ),
+    cacheScope(ref, repository),
+  );
+}
+
+/**
+ * Get component files from Grafana UI directory
+ * @param componentName Name of the component
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @returns Promise with all component files
+ */
+async function getComponentFiles(
+  componentName: string,
+  ref?: string,
+  repository?: Repository,
+): Promise<any> {
+  const name = await canonicalComponentName(componentName, ref, repository);
+  return grafanaUICache.getOrFetchComponentFiles(
+    name,
+    () => readComponentFiles(name, ref, repository),
+    cacheScope(ref, repository),
+  );
+}
+
+/**
+ * Read every file of a component directory for getComponentFiles
+ */
+async function readComponentFiles(
+  componentName: string,
+  ref?: string,
+  repository?: Repository,
+): Promise<any> {
+  const resolvedRef = effectiveRef(ref);
+  const sources = sourcesFor(repository);
+  const component = await resolveComponent(componentName, ref, repository);
+  const listing = await listRepositoryDir(component.directory, ref, repository);
+
+  if (!listing) {
+    throw new Error(
+      `Component "${componentName}" not found in ${sources.describe()}${atRef(ref)}`,
+    );
+  }
+
+  const componentFiles: any = {
+    name: componentName,
+    file: component.file,
+    path: listing.path,
+    ref: resolvedRef ?? null,
+    source: listing.source,
+    files: {},
+  };
+
+  // Fetch each file's content
+  for (const item of listing.entries) {
+    if (item.type === "file") {
+      try {
+        const file = await readRepositoryFile(item.path, ref, repository);
+        if (file === null) {
+          throw new Error(`File not found: ${item.path}`);
+        }
+        componentFiles.files[item.name] = {
+          name: item.name,
+          content: file.content,
+          size: file.content.length,
+          path: item.path,
+          sha: item.sha ?? null,
+          source: file.source,
+        };
+      } catch (error) {
+        // If individual file fails, mark it as unavailable
+        componentFiles.files[item.name] = {
+          name: item.name,
+          content: null,
+          error: "Failed to fetch file content",
+          path: item.path,
+        };
+      }
+    }
+  }
+
+  return componentFiles;
+}
+
+/**
+ * Set or update GitHub API key for higher rate limits
+ * @param apiKey GitHub Personal Access Token
+ */
+function setGitHubApiKey(apiKey: string): void {
+  // Update the Authorization header for the GitHub API instance
+  if (apiKey && apiKey.trim()) {
+    (githubApi.defaults.headers as any)["Authorization"] =
+      `Bearer ${apiKey.trim()}`;
+    console.log("GitHub API key updated successfully");
+  } else {
+    // Remove authorization header if empty key provided
+    delete (githubApi.defaults.headers as any)["Authorization"];
+    console.log("GitHub API key removed - using unauthenticated requests");
+  }
+  syncRawAuthorization();
+  // Responses may differ per credential
+  githubHttpCache.clear();
+}
+
+/**
+ * Send the API token to custom raw hosts too
+ * GitHub Enterprise serves raw content of private repositories only to
+ * authenticated requests; raw.githubusercontent.com never gets the token
+ */
+function syncRawAuthorization(): void {
+  const authorization = (githubApi.defaults.headers as any)["Authorization"];
+  if (githubRaw.defaults.baseURL !== DEFAULT_RAW_BASE_URL && authorization) {
+    (githubRaw.defaults.headers as any)["Authorization"] = authorization;
+  } else {
+    delete (githubRaw.defaults.headers as any)["Authorization"];
+  }
+}
+
+/**
+ * Point the GitHub instances at another host, e.g. GitHub Enterprise Server
+ * @param apiBaseUrl API base URL (e.g. "https://github.example.com/api/v3")
+ * @param rawBaseUrl Raw content base URL; derived as "<host>/raw" for
+ * GitHub Enterprise API URLs ending in /api/v3 when omitted
+ */
+function setGitHubEndpoints(
+  apiBaseUrl?: string | null,
+  rawBaseUrl?: string | null,
+): void {
+  const normalize = (url: string, label: string) => {
+    try {
+      return new URL(url).toString().replace(/\/+$/, "");
+    } catch (error) {
+      throw new Error(`Invalid ${label} "${url}": expected an absolute URL`);
+    }
+  };
+
+  if (apiBaseUrl) {
+    const api = normalize(apiBaseUrl, "GitHub API URL");
+    githubApi.defaults.baseURL = api;
+    if (!rawBaseUrl && /\/api\/v3$/.test(api)) {
+      rawBaseUrl = `${api.replace(/\/api\/v3$/, "")}/raw`;
+    }
+  }
+  if (rawBaseUrl) {
+    githubRaw.defaults.baseURL = normalize(rawBaseUrl, "raw content URL");
+  }
+
+  if (networkOptions) {
+    setNetworkOptions(networkOptions);
+  }
+  syncRawAuthorization();
+  // Stored responses and tree indexes belong to the previous host
+  githubHttpCache.clear();
+  githubSource = createGitHubSource(configuredRepository);
+  repositorySources.clear();
+  rebuildContentSources();
+}
+
+/**
+ * Get the base URLs the GitHub instances currently use
+ */
+function getGitHubEndpoints(): { api: string; raw: string } {
+  return {
+    api: String(githubApi.defaults.baseURL),
+    raw: String(githubRaw.defaults.baseURL),
+  };
+}
+
+/**
+ * Apply a custom CA bundle and HTTP(S) proxy to every GitHub request
+ * @param options CA file, proxy URL and NO_PROXY list
+ */
+function setNetworkOptions(options: NetworkOptions): void {
+  configureNetwork(githubApi, options);
+  configureNetwork(githubRaw, options);
+  networkOptions = options;
+}
+
+/**
+ * Get current GitHub API rate limit status
+ * Served from the X-RateLimit-* headers of earlier responses when available,
+ * so checking the budget doesn't cost a request
+ * @param refresh Query /rate_limit even when the budget is already known
+ * @returns Promise with rate limit information
+ */
+async function getGitHubRateLimit(refresh = false): Promise<any> {
+  const budgets = githubScheduler.getBudgets();
+  if (!refresh && budgets.core) {
+    return {
+      source: "headers",
+      resources: budgets,
+      rate: budgets.core,
+      scheduler: githubScheduler.getStats(),
+      httpCache: githubHttpCache.getStats(),
+    };
+  }
+
+  if (refresh) {
+    grafanaUICache.invalidateRateLimit();
+  }
+
+  try {
+    const rateLimit = await grafanaUICache.getOrFetchRateLimit(async () => {
+      // /rate_limit itself doesn't count against the budget
+      const response = await githubApi.get("/rate_limit", {
+        headers: { "Cache-Control": "no-cache" },
+      });
+      if (response.status !== 200) {
+        throw new Error(
+          response.data?.message || `GitHub API error (${response.status})`,
+        );
+      }
+      githubScheduler.recordRateLimitResponse(response.data);
+      return response.data;
+    });
+    return {
+      source: "api",
+      ...rateLimit,
+      scheduler: githubScheduler.getStats(),
+      httpCache: githubHttpCache.getStats(),
+    };
+  } catch (error: any) {
+    throw new Error(`Failed to get rate limit info: ${error.message}`);
   }
 }
 
 /**
  * Fetch component test files from Grafana UI
  * @param componentName Name of the component
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
  * @returns Promise with component test code
  */
-async function getComponentTests(componentName: string): Promise<string> {
-  // Try local filesystem first
-  const localTests = await getComponentTestsLocal(componentName);
-  if (localTests !== null) {
-    return localTests;
+async function getComponentTests(
+  componentName: string,
+  ref?: string,
+  repository?: Repository,
+): Promise<SourceFile> {
+  const name = await canonicalComponentName(componentName, ref, repository);
+  return grafanaUICache.getOrFetchComponentTests(
+    name,
+    () =>
+      getComponentFile(
+        name,
+        ".test.tsx",
+        `Tests for component "${name}"`,
+        ref,
+        repository,
+      ),
+    cacheScope(ref, repository),
+  );
+}
+
+// Declaration kinds that can be React components
+const COMPONENT_KINDS = ["const", "let", "var", "function", "class", "default"];
+
+/**
+ * Describe the stability of an export
+ * @param target Package export
+ * @returns Its tier and deprecation details
+ */
+function describeExport(target: PackageExport): {
+  tier: ApiTier;
+  deprecation: Deprecation | null;
+} {
+  if (target.deprecated === null) {
+    return { tier: target.tier, deprecation: null };
   }
+  return {
+    tier: "deprecated",
+    deprecation: {
+      message: target.deprecated,
+      replacement: deprecationReplacement(target.deprecated),
+    },
+  };
+}
 
-  // Fall back to GitHub API
-  const testPath = `${COMPONENTS_PATH}/${componentName}/${componentName}.test.tsx`;
+/**
+ * Keep the items of a stability tier
+ * @param items Components or symbols with a tier
+ * @param stability Tier to keep; "all" or undefined keeps everything
+ */
+function filterByStability<T extends { tier: ApiTier | null }>(
+  items: T[],
+  stability?: string,
+): T[] {
+  if (!stability || stability === "all") {
+    return items;
+  }
+  return items.filter((item) => item.tier === stability);
+}
 
-  try {
-    const response = await githubRaw.get(`/${testPath}`);
-    return response.data;
-  } catch (error) {
-    throw new Error(
-      `Tests for component "${componentName}" not found in ${localRepoPath ? 'local repository or ' : ''}Grafana UI repository`,
+/**
+ * List the components of Grafana UI with their stability
+ * Components are the PascalCase value exports declared under components/;
+ * component directories no entry point exports are listed as internal
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @returns Promise with the components sorted by name
+ */
+async function getComponentCatalog(
+  ref?: string,
+  repository?: Repository,
+): Promise<ComponentInfo[]> {
+  const [exports, directories] = await Promise.all([
+    getPackageExports(DEFAULT_PACKAGE, ref, repository).catch(() => null),
+    getAvailableComponents(ref, repository),
+  ]);
+
+  const catalog = new Map<string, ComponentInfo>();
+  const exportedDirectories = new Set<string>();
+  for (const target of exports?.values() ?? []) {
+    if (
+      !target.file.startsWith(`${COMPONENTS_PATH}/`) ||
+      !/^[A-Z]\w*[a-z]/.test(target.exportName) ||
+      !COMPONENT_KINDS.includes(target.kind)
+    ) {
+      continue;
+    }
+    catalog.set(target.exportName, {
+      name: target.exportName,
+      file: target.file,
+      ...describeExport(target),
+    });
+    exportedDirectories.add(
+      target.file.slice(COMPONENTS_PATH.length + 1).split("/")[0],
     );
   }
+
+  for (const directory of directories) {
+    if (exportedDirectories.has(directory) || catalog.has(directory)) {
+      continue;
+    }
+    catalog.set(directory, {
+      name: directory,
+      file: `${COMPONENTS_PATH}/${directory}/${directory}.tsx`,
+      tier: exports ? "internal" : null,
+      deprecation: null,
+    });
+  }
+
+  return [...catalog.values()].sort((a, b) => a.name.localeCompare(b.name));
 }
 
 /**
  * Search components by name and description
  * @param query Search query string
  * @param includeDescription Whether to search in documentation content
+ * @param stability Optional tier to keep ("stable", "unstable", "internal", "deprecated" or "all")
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
  * @returns Promise with filtered component list
  */
 async function searchComponents(
   query: string,
   includeDescription: boolean = false,
+  stability?: string,
+  ref?: string,
+  repository?: Repository,
 ): Promise<any[]> {
   try {
-    const components = await getAvailableComponents();
+    const catalog = filterByStability(
+      await getComponentCatalog(ref, repository),
+      stability,
+    );
     const queryLower = query.toLowerCase();
 
     const filteredComponents = [];
 
-    for (const component of components) {
+    for (const { name: component, tier, deprecation } of catalog) {
       let matches = false;
 
       // Check component name
@@ -699,13 +1698,21 @@ async function searchComponents(
       // Check description if requested
       if (!matches && includeDescription) {
         try {
-          const metadata = await getComponentMetadata(component);
+          const metadata = await getComponentMetadata(
+            component,
+            ref,
+            repository,
+          );
           if (metadata) {
             // Check if documentation exists and search in it
             if (metadata.hasDocumentation) {
               try {
-                const docs = await getComponentDocumentation(component);
-                if (docs.toLowerCase().includes(queryLower)) {
+                const docs = await getComponentDocumentation(
+                  component,
+                  ref,
+                  repository,
+                );
+                if (docs.content.toLowerCase().includes(queryLower)) {
                   matches = true;
                 }
               } catch (error) {
@@ -721,6 +1728,8 @@ async function searchComponents(
       if (matches) {
         filteredComponents.push({
           name: component,
+          tier,
+          deprecation,
           relevance:
             component.toLowerCase() === queryLower
               ? 1.0
@@ -741,133 +1750,182 @@ async function searchComponents(
 }
 
 /**
- * Get theme files from local filesystem
- * @param category Optional category filter
- * @returns Promise with theme files or null if not available locally
+ * Fetch Grafana theme files
+ * @param category Optional category filter (colors, typography, spacing, etc.)
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @returns Promise with theme file content
  */
-async function getThemeFilesLocal(category?: string): Promise<any | null> {
-  if (!localRepoPath) return null;
-  
-  const themePaths = [
-    "packages/grafana-ui/src/themes/light.ts",
-    "packages/grafana-ui/src/themes/dark.ts", 
-    "packages/grafana-ui/src/themes/base.ts",
-    "packages/grafana-ui/src/themes/default.ts",
-  ];
-
+async function getThemeFiles(
+  category?: string,
+  ref?: string,
+  repository?: Repository,
+): Promise<any> {
   const themeFiles: any = {
     category: category || "all",
-    source: "local",
+    ref: effectiveRef(ref) || null,
+    source: null,
+    sources: {},
     themes: {},
   };
 
-  let foundAny = false;
-
-  for (const themePath of themePaths) {
+  for (const themePath of THEME_PATHS) {
     try {
-      const fullPath = path.join(localRepoPath, themePath);
-      const content = fs.readFileSync(fullPath, 'utf8');
-      const themeName = themePath.split("/").pop()?.replace(".ts", "") || "unknown";
-      themeFiles.themes[themeName] = content;
-      foundAny = true;
+      const file = await readRepositoryFile(themePath, ref, repository);
+      if (!file) {
+        console.warn(`Theme file not found: ${themePath}`);
+        continue;
+      }
+      const themeName =
+        themePath.split("/").pop()?.replace(".ts", "") || "unknown";
+      themeFiles.themes[themeName] = file.content;
+      themeFiles.sources[themeName] = file.source;
+      themeFiles.source = themeFiles.source || file.source;
     } catch (error) {
-      // Theme file doesn't exist locally, skip it
+      // Theme file couldn't be fetched, skip it
+      console.warn(`Theme file not available: ${themePath}`);
     }
   }
 
-  return foundAny ? themeFiles : null;
+  return themeFiles;
 }
 
+// Files next to a component holding its styles (styles.ts, Button.styles.ts)
+const STYLE_FILE_REGEX = /(?:^|\.)styles?\.tsx?$/i;
+
 /**
- * Fetch Grafana theme files
- * @param category Optional category filter (colors, typography, spacing, etc.)
- * @returns Promise with theme file content
+ * Extract a component's style blocks and the theme tokens they reference
+ * Reads the component's implementation and the style files next to it, and
+ * lists each style factory with its blocks, the tokens each block uses
+ * (theme.spacing(2), theme.colors.text.secondary) and the CSS properties
+ * they feed.
+ * @param componentName Export name of the component (e.g. "Button", "Card.Heading")
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @returns Promise with the style factories and a summary of the tokens used
  */
-async function getThemeFiles(category?: string): Promise<any> {
-  // Try local filesystem first
-  const localThemes = await getThemeFilesLocal(category);
-  if (localThemes !== null) {
-    return localThemes;
+async function getComponentStyles(
+  componentName: string,
+  ref?: string,
+  repository?: Repository,
+): Promise<{
+  component: string;
+  files: string[];
+  source: string;
+  factories: StyleFactory[];
+  tokens: ThemeTokenSummary[];
+}> {
+  const sources = sourcesFor(repository);
+  const component = await resolveComponent(componentName, ref, repository);
+  const implementation = await readRepositoryFile(
+    component.file,
+    ref,
+    repository,
+  );
+  if (!implementation) {
+    throw new Error(
+      `Component "${componentName}" not found in ${sources.describe()}${atRef(ref)}`,
+    );
   }
 
-  // Fall back to GitHub API
-  const themePaths = [
-    "packages/grafana-ui/src/themes/light.ts",
-    "packages/grafana-ui/src/themes/dark.ts",
-    "packages/grafana-ui/src/themes/base.ts",
-    "packages/grafana-ui/src/themes/default.ts",
-  ];
+  const files: SourceFile[] = [implementation];
+  const listing = await listRepositoryDir(
+    component.directory,
+    ref,
+    repository,
+  ).catch(() => null);
+  for (const entry of listing?.entries ?? []) {
+    if (
+      entry.type === "file" &&
+      entry.path !== component.file &&
+      STYLE_FILE_REGEX.test(entry.name)
+    ) {
+      const file = await readRepositoryFile(entry.path, ref, repository).catch(
+        () => null,
+      );
+      if (file) {
+        files.push(file);
+      }
+    }
+  }
 
-  const themeFiles: any = {
-    category: category || "all",
-    source: "github",
-    themes: {},
+  const factories = files.flatMap((file) =>
+    extractStyles(file.content, file.path),
+  );
+  return {
+    component: componentName,
+    files: files.map((file) => file.path),
+    source: implementation.source,
+    factories,
+    tokens: summarizeThemeTokens(factories),
   };
+}
 
-  for (const themePath of themePaths) {
-    try {
-      const response = await githubRaw.get(`/${themePath}`);
-      const themeName =
-        themePath.split("/").pop()?.replace(".ts", "") || "unknown";
-      themeFiles.themes[themeName] = response.data;
-    } catch (error) {
-      // Theme file doesn't exist, skip it
-      console.warn(`Theme file not found: ${themePath}`);
+// Module specifiers of import statements, including multi-line and side-effect imports
+const IMPORT_SPECIFIER_REGEX =
+  /import\s+(?:type\s+)?(?:[^;'"]*?\s+from\s+)?['"]([@\w\/\-\.]+)['"]/g;
+
+/**
+ * Classify the imports of a source file
+ * @param code TypeScript source
+ * @returns Deduplicated module specifiers: external packages, relative
+ * imports, @grafana/ui and the other @grafana/* packages
+ */
+function classifyImports(code: string) {
+  const external = new Set<string>();
+  const internal = new Set<string>();
+  const grafanaUI = new Set<string>();
+  const grafana = new Set<string>();
+
+  for (const match of code.matchAll(IMPORT_SPECIFIER_REGEX)) {
+    const dep = match[1];
+
+    if (dep.startsWith("@grafana/ui")) {
+      grafanaUI.add(dep);
+    } else if (dep.startsWith("@grafana/")) {
+      grafana.add(dep);
+    } else if (dep.startsWith("./") || dep.startsWith("../")) {
+      internal.add(dep);
+    } else if (!dep.startsWith("@/")) {
+      external.add(dep);
     }
   }
 
-  return themeFiles;
+  return {
+    external: [...external],
+    internal: [...internal],
+    grafanaUI: [...grafanaUI],
+    grafana: [...grafana],
+  };
 }
 
 /**
  * Get component dependencies by analyzing imports
  * @param componentName Name of the component
  * @param deep Whether to analyze dependencies recursively
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
  * @returns Promise with dependency tree
  */
 async function getComponentDependencies(
   componentName: string,
   deep: boolean = false,
+  ref?: string,
+  repository?: Repository,
 ): Promise<any> {
   try {
-    const componentSource = await getComponentSource(componentName);
+    const { content: componentSource } = await getComponentSource(
+      componentName,
+      ref,
+      repository,
+    );
 
-    // Extract imports from component source
-    const importRegex = /import\s+.*?\s+from\s+['"]([@\w\/\-\.]+)['"]/g;
     const dependencies: any = {
       component: componentName,
-      dependencies: {
-        external: [],
-        internal: [],
-        grafanaUI: [],
-      },
+      dependencies: classifyImports(componentSource),
       deep: deep,
     };
 
-    let match;
-    while ((match = importRegex.exec(componentSource)) !== null) {
-      const dep = match[1];
-
-      if (dep.startsWith("@grafana/ui")) {
-        dependencies.dependencies.grafanaUI.push(dep);
-      } else if (dep.startsWith("./") || dep.startsWith("../")) {
-        dependencies.dependencies.internal.push(dep);
-      } else if (!dep.startsWith("@/")) {
-        dependencies.dependencies.external.push(dep);
-      }
-    }
-
-    // Remove duplicates
-    dependencies.dependencies.external = [
-      ...new Set(dependencies.dependencies.external),
-    ];
-    dependencies.dependencies.internal = [
-      ...new Set(dependencies.dependencies.internal),
-    ];
-    dependencies.dependencies.grafanaUI = [
-      ...new Set(dependencies.dependencies.grafanaUI),
-    ];
-
     // If deep analysis requested, analyze internal dependencies
     if (deep && dependencies.dependencies.internal.length > 0) {
       dependencies.deepDependencies = {};
@@ -880,7 +1938,12 @@ async function getComponentDependencies(
             .replace(/\.tsx?$/, "");
           if (depComponentName && depComponentName !== componentName) {
             dependencies.deepDependencies[depComponentName] =
-              await getComponentDependencies(depComponentName, false);
+              await getComponentDependencies(
+                depComponentName,
+                false,
+                ref,
+                repository,
+              );
           }
         } catch (error) {
           // Ignore errors for individual dependencies
@@ -893,28 +1956,677 @@ async function getComponentDependencies(
 
     return dependencies;
   } catch (error) {
+    if (error instanceof NameNotFoundError) {
+      throw error;
+    }
     throw new Error(
       `Failed to analyze dependencies for component "${componentName}": ${error instanceof Error ? error.message : String(error)}`,
     );
   }
 }
+/**
+ * Create an export map builder reading through the configured sources
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ */
+function createExportMapBuilder(
+  ref?: string,
+  repository?: Repository,
+): ExportMapBuilder {
+  return new ExportMapBuilder({
+    readFile: async (filePath) =>
+      (await readRepositoryFile(filePath, ref, repository))?.content ?? null,
+    listDir: async (dirPath) =>
+      (await listRepositoryDir(dirPath, ref, repository))?.entries ?? null,
+  });
+}
+
+/**
+ * Create a reader for the files a component's props types are imported from
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ */
+function createPropTypeReader(
+  ref?: string,
+  repository?: Repository,
+): PropTypeReader {
+  const builder = createExportMapBuilder(ref, repository);
+  return {
+    readFile: async (filePath) =>
+      (await readRepositoryFile(filePath, ref, repository))?.content ?? null,
+    findDeclaration: (filePath, name) =>
+      builder.findDeclaration(filePath, name),
+  };
+}
+
+/**
+ * Build (once per package, repository and ref, until the ref's TTL expires)
+ * the map of a package's public exports to the files declaring them
+ * @param packageName Package identifier (e.g. "data" or "@grafana/data"; default: @grafana/ui)
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @returns Promise with the export map
+ */
+async function getPackageExports(
+  packageName?: string,
+  ref?: string,
+  repository?: Repository,
+): Promise<Map<string, PackageExport>> {
+  const layout = getPackageLayout(packageName);
+  const { owner, repo } = repository ?? configuredRepository;
+  const resolvedRef = effectiveRef(ref);
+  const key = `${owner}/${repo}:${layout.id}@${resolvedRef ?? ""}`;
+
+  let entry = packageExports.get(key);
+  if (entry && entry.expiresAt <= Date.now()) {
+    packageExports.delete(key);
+    entry = undefined;
+  }
+  if (!entry) {
+    const builder = createExportMapBuilder(ref, repository);
+    const exports = Promise.all(
+      layout.entryPoints.map((entryPoint) => builder.build([entryPoint.path])),
+    ).then((maps) => {
+      // A name keeps the tier of the most stable entry point exporting it
+      const map = new Map<string, PackageExport>();
+      maps.forEach((entryExports, index) => {
+        for (const [name, target] of entryExports) {
+          if (!map.has(name)) {
+            map.set(name, { ...target, tier: layout.entryPoints[index].tier });
+          }
+        }
+      });
+      if (map.size === 0) {
+        throw new Error(
+          `No exports found for ${layout.name} in ${sourcesFor(repository).describe()}${atRef(ref)}`,
+        );
+      }
+      return map;
+    });
+    const ttl = refTTL(resolvedRef);
+    const built = {
+      exports,
+      expiresAt: ttl > 0 ? Date.now() + ttl : Infinity,
+    };
+    entry = built;
+    packageExports.set(key, built);
+    // Don't remember failures; the next call retries
+    exports.catch(() => {
+      if (packageExports.get(key) === built) {
+        packageExports.delete(key);
+      }
+    });
+  }
+  return entry.exports;
+}
+
+/**
+ * List the public exports of a package
+ * @param packageName Package identifier (default: @grafana/ui)
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @returns Promise with the exports sorted by name
+ */
+async function getPackageSymbols(
+  packageName?: string,
+  ref?: string,
+  repository?: Repository,
+): Promise<PackageExport[]> {
+  const exports = await getPackageExports(packageName, ref, repository);
+  return [...exports.values()].sort((a, b) =>
+    a.exportName.localeCompare(b.exportName),
+  );
+}
+
+/**
+ * List the deprecated symbols of a package: the components, props, types and
+ * members marked @deprecated in the files declaring its public exports
+ * @param packageName Package identifier (default: @grafana/ui)
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @returns Promise with the deprecated symbols sorted by file and line
+ */
+async function getDeprecations(
+  packageName?: string,
+  ref?: string,
+  repository?: Repository,
+): Promise<DeprecatedSymbol[]> {
+  const exports = await getPackageExports(packageName, ref, repository);
+  const files = [
+    ...new Set([...exports.values()].map((target) => target.file)),
+  ];
+  const deprecations = await Promise.all(
+    files.map(async (file) => {
+      const source = await readRepositoryFile(file, ref, repository).catch(
+        () => null,
+      );
+      return source ? findDeprecations(source.content, file) : [];
+    }),
+  );
+  return deprecations
+    .flat()
+    .sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+}
+
+/**
+ * Fetch the source file declaring an exported symbol
+ * @param symbolName Exported name (e.g. "DataFrame", "getBackendSrv")
+ * @param packageName Package identifier (default: @grafana/ui)
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @returns Promise with the declaring file and the symbol's export details
+ */
+async function getSymbolSource(
+  symbolName: string,
+  packageName?: string,
+  ref?: string,
+  repository?: Repository,
+): Promise<SourceFile & { symbol: PackageExport; package: string }> {
+  const layout = getPackageLayout(packageName);
+  const exports = await getPackageExports(packageName, ref, repository);
+  let symbol = exports.get(symbolName);
+  if (!symbol) {
+    const match = resolveName(symbolName, exports.keys());
+    if (!match.name) {
+      throw new NameNotFoundError(
+        symbolName,
+        match.suggestions,
+        `Symbol "${symbolName}" is not exported by ${layout.name}${atRef(ref)}`,
+      );
+    }
+    symbol = exports.get(match.name)!;
+  }
+
+  const sources = sourcesFor(repository);
+  const file = await readRepositoryFile(symbol.file, ref, repository);
+  if (!file) {
+    throw new Error(
+      `${symbol.file} not found in ${sources.describe()}${atRef(ref)}`,
+    );
+  }
+  return { ...file, symbol, package: layout.name };
+}
+
+/**
+ * Search the exported symbols of a package by name
+ * @param query Search query string
+ * @param packageName Package identifier (default: @grafana/ui)
+ * @param stability Optional tier to keep ("stable", "unstable", "internal", "deprecated" or "all")
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @returns Promise with matching symbols, most relevant first
+ */
+async function searchPackageSymbols(
+  query: string,
+  packageName?: string,
+  stability?: string,
+  ref?: string,
+  repository?: Repository,
+): Promise<any[]> {
+  const symbols = await getPackageSymbols(packageName, ref, repository);
+  const queryLower = query.toLowerCase();
+
+  const matches = symbols
+    .filter((symbol) => symbol.exportName.toLowerCase().includes(queryLower))
+    .map((symbol) => {
+      const nameLower = symbol.exportName.toLowerCase();
+      return {
+        name: symbol.exportName,
+        kind: symbol.kind,
+        file: symbol.file,
+        ...describeExport(symbol),
+        relevance:
+          nameLower === queryLower
+            ? 1.0
+            : nameLower.startsWith(queryLower)
+              ? 0.8
+              : 0.5,
+      };
+    });
+  return filterByStability(matches, stability).sort(
+    (a, b) => b.relevance - a.relevance,
+  );
+}
+
+/**
+ * Get the dependencies of an exported symbol by analyzing the imports of the
+ * file declaring it
+ * @param symbolName Exported name
+ * @param packageName Package identifier (default: @grafana/ui)
+ * @param deep Whether to also analyze the files imported relatively
+ * @param ref Optional git ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @returns Promise with dependency tree
+ */
+async function getSymbolDependencies(
+  symbolName: string,
+  packageName?: string,
+  deep: boolean = false,
+  ref?: string,
+  repository?: Repository,
+): Promise<any> {
+  try {
+    const file = await getSymbolSource(
+      symbolName,
+      packageName,
+      ref,
+      repository,
+    );
+    const dependencies: any = {
+      symbol: symbolName,
+      package: file.package,
+      file: file.path,
+      dependencies: classifyImports(file.content),
+      deep: deep,
+    };
+
+    if (deep && dependencies.dependencies.internal.length > 0) {
+      const builder = createExportMapBuilder(ref, repository);
+      dependencies.deepDependencies = {};
+
+      for (const internalDep of dependencies.dependencies.internal) {
+        try {
+          const depPath = await builder.resolveModule(file.path, internalDep);
+          const depFile = depPath
+            ? await readRepositoryFile(depPath, ref, repository)
+            : null;
+          dependencies.deepDependencies[internalDep] = depFile
+            ? { file: depPath, dependencies: classifyImports(depFile.content) }
+            : { error: "Module not found" };
+        } catch (error) {
+          // Ignore errors for individual dependencies
+          dependencies.deepDependencies[internalDep] = {
+            error: "Failed to analyze dependency",
+          };
+        }
+      }
+    }
+
+    return dependencies;
+  } catch (error) {
+    if (error instanceof NameNotFoundError) {
+      throw error;
+    }
+    throw new Error(
+      `Failed to analyze dependencies for symbol "${symbolName}": ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Compare a component between two git refs
+ * @param componentName Name of the component
+ * @param fromRef Older ref (branch, tag or SHA)
+ * @param toRef Newer ref (branch, tag or SHA)
+ * @param repository Optional repository override (defaults to the configured repository)
+ * @returns Promise with unified diffs of the source, story and MDX files plus a props summary
+ */
+async function getComponentDiff(
+  componentName: string,
+  fromRef: string,
+  toRef: string,
+  repository?: Repository,
+): Promise<any> {
+  const sources = sourcesFor(repository);
+  const componentFiles = [
+    { kind: "source", suffix: ".tsx" },
+    { kind: "story", suffix: ".story.tsx" },
+    { kind: "documentation", suffix: ".mdx" },
+  ];
+
+  // Components can move between releases, so resolve the name at each ref
+  let notFound: NameNotFoundError | null = null;
+  const resolveAt = (ref: string) =>
+    resolveComponent(componentName, ref, repository).catch((error) => {
+      if (error instanceof NameNotFoundError) {
+        notFound = error;
+      }
+      return null;
+    });
+  const [fromComponent, toComponent] = await Promise.all([
+    resolveAt(fromRef),
+    resolveAt(toRef),
+  ]);
+  if (!fromComponent && !toComponent && notFound) {
+    throw notFound;
+  }
+
+  const files: Record<string, ComponentFileDiff> = {};
+  const contents: Record<string, { from: string | null; to: string | null }> =
+    {};
+
+  for (const { kind, suffix } of componentFiles) {
+    const [fromFile, toFile] = await Promise.all([
+      fromComponent &&
+        readComponentFile(fromComponent, suffix, fromRef, repository),
+      toComponent && readComponentFile(toComponent, suffix, toRef, repository),
+    ]);
+    const filePath =
+      toFile?.path ??
+      fromFile?.path ??
+      (toComponent ?? fromComponent)?.file.replace(/\.tsx$/, suffix) ??
+      `${COMPONENTS_PATH}/${componentName}/${componentName}${suffix}`;
+    const from = fromFile?.content ?? null;
+    const to = toFile?.content ?? null;
+    contents[kind] = { from, to };
+
+    const status =
+      from === null && to === null
+        ? "missing"
+        : from === null
+          ? "added"
+          : to === null
+            ? "removed"
+            : from === to
+              ? "unchanged"
+              : "modified";
+
+    files[kind] = {
+      path: filePath,
+      status,
+      fromSource: fromFile?.source ?? null,
+      toSource: toFile?.source ?? null,
+      diff: createUnifiedDiff(
+        from ?? "",
+        to ?? "",
+        `a/${fromFile?.path ?? filePath}\t${fromRef}`,
+        `b/${filePath}\t${toRef}`,
+      ),
+    };
+  }
+
+  const source = contents.source;
+  if (source.from === null && source.to === null) {
+    throw new Error(
+      `Component "${componentName}" not found at ref "${fromRef}" or "${toRef}" in ${sources.describe()}`,
+    );
+  }
+
+  // Compound members declare their props under the member's name
+  const propsName =
+    toComponent?.member ?? fromComponent?.member ?? componentName;
+  const propsAt = async (
+    code: string | null,
+    component: ResolvedComponent | null,
+    ref: string,
+  ) =>
+    code && component
+      ? (
+          await parseComponentMetadata(
+            propsName,
+            code,
+            component.file,
+            createPropTypeReader(ref, repository),
+          )
+        ).props
+      : [];
+  const [fromAllProps, toAllProps] = await Promise.all([
+    propsAt(source.from, fromComponent, fromRef),
+    propsAt(source.to, toComponent, toRef),
+  ]);
+  // DOM attributes would flood the diff whenever the extended element type
+  // changes, so they are compared by the types they come from instead
+  const withoutDom = (props: PropDefinition[]) =>
+    props.filter((prop) => prop.origin !== "dom");
+  const domTypes = (props: PropDefinition[]) => [
+    ...new Set(
+      props.flatMap((prop) =>
+        prop.origin === "dom" && prop.inheritedFrom ? [prop.inheritedFrom] : [],
+      ),
+    ),
+  ];
+  const fromProps = withoutDom(fromAllProps);
+  const toProps = withoutDom(toAllProps);
+  const props = diffProps(fromProps, toProps);
+
+  return {
+    component: componentName,
+    fromRef,
+    toRef,
+    files,
+    props: {
+      fromCount: fromProps.length,
+      toCount: toProps.length,
+      ...props,
+      domTypes: { from: domTypes(fromAllProps), to: domTypes(toAllProps) },
+    },
+    summary: {
+      changedFiles: Object.values(files)
+        .filter((file) => !["unchanged", "missing"].includes(file.status))
+        .map((file) => file.path),
+      propsAdded: props.added.map((prop) => prop.name),
+      propsRemoved: props.removed.map((prop) => prop.name),
+      propsRetyped: props.retyped.map((prop) => prop.name),
+      propsNewlyRequired: props.newlyRequired.map((prop) => prop.name),
+    },
+  };
+}
+
+// Files captured from component directories
+const SNAPSHOT_FILE_REGEX = /\.(?:tsx?|mdx)$/;
+
+/**
+ * Capture the listings of a directory and its subdirectories, as deep as
+ * get_directory walks
+ */
+async function captureDirectoryTree(
+  dirPath: string,
+  ref?: string,
+): Promise<DirEntry[]> {
+  const listing = await listRepositoryDir(dirPath, ref).catch(() => null);
+  if (!listing) {
+    return [];
+  }
+  const files: DirEntry[] = [];
+  for (const entry of listing.entries) {
+    if (entry.type === "file") {
+      files.push(entry);
+    } else if (dirPath.split("/").length < 8) {
+      files.push(...(await captureDirectoryTree(entry.path, ref)));
+    }
+  }
+  return files;
+}
+
+/**
+ * Capture everything the actions read into one offline snapshot archive: the
+ * directory listings of every package, the packages' entry points and the
+ * files declaring their exports, each component's files (source, story, MDX,
+ * tests, types, styles and sibling modules) with the modules they import and
+ * the files their props types come from, and the theme files
+ * @param filePath Destination file (conventionally *.json.gz)
+ * @param ref Optional git ref (branch, tag or SHA) to capture
+ * @param onProgress Optional callback invoked after each component
+ * @returns Promise with the manifest of the written snapshot
+ */
+async function exportSnapshot(
+  filePath: string,
+  ref?: string,
+  onProgress?: (done: number, total: number, componentName: string) => void,
+): Promise<SnapshotManifest> {
+  const resolvedRef = effectiveRef(ref);
+  const archive: SnapshotArchive = {
+    manifest: {
+      format: SNAPSHOT_FORMAT_VERSION,
+      ref: resolvedRef ?? null,
+      commitSha: null,
+      createdAt: new Date().toISOString(),
+      components: 0,
+      files: 0,
+      sources: [],
+    },
+    directories: {},
+    files: {},
+  };
+  const recording = { archive, sources: new Set<string>() };
+  // Every file and listing read below, directly or by the parsers, is captured
+  snapshotRecording = recording;
+
+  try {
+    const componentsListing = await listRepositoryDir(
+      COMPONENTS_PATH,
+      resolvedRef,
+    );
+    if (!componentsListing) {
+      throw new Error(
+        `Failed to list components from ${contentSources.describe()}${atRef(ref)}`,
+      );
+    }
+    const components = componentsListing.entries
+      .filter((entry) => entry.type === "dir")
+      .map((entry) => entry.name)
+      .sort();
+
+    const builder = createExportMapBuilder(resolvedRef);
+    const readImports = async (file: SourceFile) => {
+      for (const specifier of classifyImports(file.content).internal) {
+        const target = await builder
+          .resolveModule(file.path, specifier)
+          .catch(() => null);
+        if (target) {
+          await readRepositoryFile(target, resolvedRef).catch(() => null);
+        }
+      }
+    };
+
+    // Entry points and the files declaring each package's exports
+    const uiExports = new Map<string, ExportTarget>();
+    for (const layout of Object.values(PACKAGE_LAYOUTS)) {
+      await captureDirectoryTree(layout.src, resolvedRef);
+      const exports = await builder
+        .build(layout.entryPoints.map((entryPoint) => entryPoint.path))
+        .catch(() => new Map<string, ExportTarget>());
+      const files = new Set([...exports.values()].map((target) => target.file));
+      for (const file of files) {
+        const source = await readRepositoryFile(file, resolvedRef).catch(
+          () => null,
+        );
+        if (source) {
+          await readImports(source);
+        }
+      }
+      if (layout.id === DEFAULT_PACKAGE) {
+        exports.forEach((target, name) => uiExports.set(name, target));
+      }
+    }
+
+    // Component files, the modules they import and their props types
+    const reader = createPropTypeReader(resolvedRef);
+    let done = 0;
+    for (const componentName of components) {
+      const componentPath = `${COMPONENTS_PATH}/${componentName}`;
+      const files = await captureDirectoryTree(componentPath, resolvedRef);
+      for (const entry of files) {
+        if (!SNAPSHOT_FILE_REGEX.test(entry.name)) {
+          continue;
+        }
+        const file = await readRepositoryFile(entry.path, resolvedRef).catch(
+          () => null,
+        );
+        if (file && !file.path.endsWith(".mdx")) {
+          await readImports(file);
+        }
+      }
+
+      const exported = [...uiExports.values()].filter(
+        (target) =>
+          target.file.startsWith(`${componentPath}/`) &&
+          target.file.endsWith(".tsx") &&
+          /^[A-Z]/.test(target.exportName),
+      );
+      const conventionFile = `${componentPath}/${componentName}.tsx`;
+      const targets =
+        exported.length > 0
+          ? exported.map((target) => [target.localName, target.file])
+          : [[componentName, conventionFile]];
+      for (const [name, file] of targets) {
+        if (Object.hasOwn(archive.files, file)) {
+          const source = archive.files[file];
+          await parseComponentMetadata(name, source, file, reader).catch(
+            () => null,
+          );
+        }
+      }
+
+      onProgress?.(++done, components.length, componentName);
+    }
+
+    // Theme files are optional; older refs don't have all of them
+    for (const themePath of THEME_PATHS) {
+      await readRepositoryFile(themePath, resolvedRef).catch(() => null);
+    }
+
+    archive.manifest.commitSha =
+      (await contentSources.resolveRef(resolvedRef).catch(() => null))?.sha ??
+      null;
+    archive.manifest.components = components.length;
+  } finally {
+    snapshotRecording = null;
+  }
+
+  archive.manifest.files = Object.keys(archive.files).length;
+  archive.manifest.sources = [...recording.sources];
+  writeSnapshotFile(filePath, archive);
+  return archive.manifest;
+}
+
 export const axios = {
   githubRaw,
   githubApi,
-  buildDirectoryTree: buildDirectoryTreeWithFallback, // Use fallback version by default
-  buildDirectoryTreeWithFallback,
+  buildDirectoryTree,
+  buildDirectoryTreeWithFallback: buildDirectoryTree, // Kept for existing callers
+  resolveComponent,
   getComponentSource,
   getComponentDemo,
   getAvailableComponents,
+  getComponentCatalog,
+  describeExport,
+  filterByStability,
   getComponentMetadata,
   getComponentDocumentation,
   getComponentFiles,
   getComponentTests,
   searchComponents,
   getThemeFiles,
+  getComponentStyles,
+  extractStyles,
   getComponentDependencies,
+  getComponentDiff,
+  getPackageExports,
+  getPackageSymbols,
+  getSymbolSource,
+  getDeprecations,
+  findDeprecations,
+  searchPackageSymbols,
+  getSymbolDependencies,
   setGitHubApiKey,
+  setGitHubEndpoints,
+  getGitHubEndpoints,
+  setNetworkOptions,
   setLocalGrafanaRepo,
+  setNodeModulesPackage,
+  getInstalledPackage,
+  getInstalledPackageExports,
+  loadSnapshot,
+  getSnapshotManifest,
+  exportSnapshot,
+  setContentSources,
+  setDiskCache,
+  watchLocalRepository,
+  unwatchLocalRepository,
+  invalidateLocalChanges,
+  setCacheLimits,
+  getCacheLimits,
+  getCacheStats,
+  clearCache,
+  warmCache,
+  setRepository,
+  getRepository,
+  parseRepository,
+  resolveRepository,
+  setDefaultRef,
+  getDefaultRef,
+  contentSources,
   getGitHubRateLimit,
   // Path constants for easy access
   paths: {
@@ -2,21 +2,107 @@
  * Cache utility for storing API responses with configurable TTL
  */
 
+import { DiskCache } from "./disk-cache.js";
+
 type CacheItem<T> = {
   value: T;
   timestamp: number;
   ttl: number; // Time to live in milliseconds
+  size: number; // Approximate size in bytes
+};
+
+type Loading = {
+  /** Loads of the key in progress */
+  count: number;
+  /** Bumped when the key is invalidated during a load */
+  generation: number;
 };
 
+type CacheCounters = {
+  hits: number;
+  misses: number;
+  /** Memory misses served from the disk tier */
+  diskHits: number;
+  /** Misses that joined a fetch already in flight for the same key */
+  coalesced: number;
+  /** Entries dropped because they expired or to stay within the limits */
+  evictions: number;
+};
+
+export interface CacheLimits {
+  /** Maximum number of entries (0 = unlimited) */
+  maxEntries: number;
+  /** Maximum approximate size of all entries in bytes (0 = unlimited) */
+  maxBytes: number;
+  /** How often expired entries are swept, in milliseconds (0 = only on access) */
+  sweepInterval: number;
+}
+
+export const DEFAULT_CACHE_LIMITS: CacheLimits = {
+  maxEntries: 5000,
+  maxBytes: 128 * 1024 * 1024,
+  sweepInterval: 5 * 60 * 1000,
+};
+
+export interface CachePrefixStats extends CacheCounters {
+  entries: number;
+  bytes: number;
+  /** Age of the oldest entry in milliseconds, or null when empty */
+  oldestEntryAge: number | null;
+}
+
+export interface CacheStats extends CachePrefixStats {
+  limits: CacheLimits;
+  /** The same numbers per key prefix (see keyPrefix) */
+  prefixes: Record<string, CachePrefixStats>;
+}
+
+/**
+ * Group a key for statistics: the scope and the component name or path are
+ * dropped, so "component:Button:source@github:..." counts as "component:source"
+ * @param key Cache key
+ * @returns The key's prefix
+ */
+export function keyPrefix(key: string): string {
+  const parts = key.split("@")[0].split(":");
+  return parts.length > 2 ? `${parts[0]}:${parts[parts.length - 1]}` : parts[0];
+}
+
+/**
+ * Approximate the memory held by a cached value
+ */
+function estimateSize(value: unknown): number {
+  if (typeof value === "string") {
+    return Buffer.byteLength(value);
+  }
+  try {
+    return Buffer.byteLength(JSON.stringify(value) ?? "");
+  } catch (error) {
+    return 0;
+  }
+}
+
 export class Cache {
   private static instance: Cache;
   private storage: Map<string, CacheItem<any>>;
   private defaultTTL: number;
+  private disk: DiskCache | null = null;
+  private counters = new Map<string, CacheCounters>();
+  // Fetches in progress, shared by concurrent callers asking for the same key
+  private inflight = new Map<string, Promise<any>>();
+  // Keys being loaded; a load whose key was invalidated meanwhile may have
+  // read what was invalidated, so its result isn't kept
+  private loading = new Map<string, Loading>();
+  // Storage is kept in least recently used order: hits move to the end
+  private bytes = 0;
+  private limits: CacheLimits = { ...DEFAULT_CACHE_LIMITS };
+  private sweeper: NodeJS.Timeout | null = null;
 
   private constructor(defaultTTL = 3600000) {
     // Default TTL: 1 hour
     this.storage = new Map();
     this.defaultTTL = defaultTTL;
+    this.startSweeper();
   }
 
   /**
@@ -36,10 +122,11 @@ export class Cache {
    * @param ttl Optional TTL in milliseconds
    */
   public set<T>(key: string, value: T, ttl = this.defaultTTL): void {
-    this.storage.set(key, {
+    this.store(key, {
       value,
       timestamp: Date.now(),
       ttl,
+      size: estimateSize(value),
     });
   }
 
@@ -51,31 +138,46 @@ export class Cache {
   public get<T>(key: string): T | null {
     const item = this.storage.get(key);
 
+    const counters = this.countersFor(key);
+
     // Return null if the item doesn't exist
-    if (!item) return null;
+    if (!item) {
+      counters.misses++;
+      return null;
+    }
 
     // Check if the item has expired
     const now = Date.now();
     if (item.ttl > 0 && now - item.timestamp > item.ttl) {
       // Item has expired, remove it from cache
-      this.storage.delete(key);
+      this.remove(key);
+      counters.evictions++;
+      counters.misses++;
       return null;
     }
 
+    // Mark as most recently used
+    this.storage.delete(key);
+    this.storage.set(key, item);
+    counters.hits++;
     return item.value as T;
   }
 
   /**
    * Retrieve a value from cache or compute it if not available
+   * Concurrent calls for a key share one fetch; a rejected fetch is not
+   * cached, so the next call tries again
    * @param key Cache key
    * @param fetchFn Function to compute the value if not in cache
    * @param ttl Optional TTL in milliseconds
+   * @param persist Whether to also keep the value in the disk tier, if enabled
    * @returns The cached or computed value
    */
   public async getOrFetch<T>(
     key: string,
     fetchFn: () => Promise<T>,
     ttl = this.defaultTTL,
+    persist = false,
   ): Promise<T> {
     const cachedValue = this.get<T>(key);
 
@@ -83,12 +185,101 @@ export class Cache {
       return cachedValue;
     }
 
-    // Value not in cache or expired, fetch it
+    const pending = this.inflight.get(key);
+    if (pending) {
+      this.countersFor(key).coalesced++;
+      return pending;
+    }
+
+    const fetching = this.load(key, fetchFn, ttl, persist).finally(() => {
+      // An invalidation may have dropped this fetch and another may have started
+      if (this.inflight.get(key) === fetching) {
+        this.inflight.delete(key);
+      }
+    });
+    this.inflight.set(key, fetching);
+    return fetching;
+  }
+
+  /**
+   * Read a missing value from the disk tier or fetch it, and cache it
+   */
+  private async load<T>(
+    key: string,
+    fetchFn: () => Promise<T>,
+    ttl: number,
+    persist: boolean,
+  ): Promise<T> {
+    const loading = this.loading.get(key) ?? { count: 0, generation: 0 };
+    loading.count++;
+    this.loading.set(key, loading);
+    try {
+      return await this.loadTracked(key, fetchFn, ttl, persist, loading);
+    } finally {
+      if (--loading.count === 0) {
+        this.loading.delete(key);
+      }
+    }
+  }
+
+  private async loadTracked<T>(
+    key: string,
+    fetchFn: () => Promise<T>,
+    ttl: number,
+    persist: boolean,
+    loading: Loading,
+  ): Promise<T> {
+    const generation = loading.generation;
+    const disk = persist ? this.disk : null;
+    const stored = await disk?.get<T>(key).catch(() => null);
+    if (generation !== loading.generation) {
+      return this.loadTracked(key, fetchFn, ttl, persist, loading);
+    }
+    if (stored && stored.value !== null) {
+      // Keep the original timestamp so the entry expires when it would have
+      this.store(key, { ...stored, size: estimateSize(stored.value) });
+      this.countersFor(key).diskHits++;
+      return stored.value;
+    }
+
+    // Value not in cache or expired, fetch it. Missing values (null) aren't
+    // cached: getOrFetch fetches them again, so a stored null would only be
+    // counted as a hit by get
     const value = await fetchFn();
+    if (value === null || value === undefined) {
+      return value;
+    }
+    if (generation !== loading.generation) {
+      // Invalidated while fetching; the caller gets the value, the cache doesn't
+      return value;
+    }
     this.set(key, value, ttl);
+    if (disk) {
+      await disk
+        .set(key, value, ttl)
+        .catch((error) =>
+          console.error(`Failed to write ${key} to the disk cache:`, error),
+        );
+    }
     return value;
   }
 
+  /**
+   * Enable the disk tier, shared across restarts and server processes
+   * @param disk Disk cache, or null to keep everything in memory
+   */
+  public setDiskCache(disk: DiskCache | null): void {
+    this.disk = disk;
+  }
+
+  /**
+   * Get the disk tier
+   * @returns The disk cache, or null when it is disabled
+   */
+  public getDiskCache(): DiskCache | null {
+    return this.disk;
+  }
+
   /**
    * Check if a key exists in the cache and is not expired
    * @param key Cache key
@@ -100,7 +291,8 @@ export class Cache {
 
     const now = Date.now();
     if (item.ttl > 0 && now - item.timestamp > item.ttl) {
-      this.storage.delete(key);
+      this.remove(key);
+      this.countersFor(key).evictions++;
       return false;
     }
 
@@ -113,14 +305,34 @@ export class Cache {
    * @returns Whether the item was successfully deleted
    */
   public delete(key: string): boolean {
-    return this.storage.delete(key);
+    this.invalidate((inflightKey) => inflightKey === key);
+    return this.remove(key);
   }
 
   /**
    * Clear all items from the cache
    */
   public clear(): void {
+    this.invalidate(() => true);
     this.storage.clear();
+    this.bytes = 0;
+  }
+
+  /**
+   * Keep loads of matching keys in progress from storing what they read, and
+   * let later callers of those keys fetch again instead of joining them
+   */
+  private invalidate(matches: (key: string) => boolean): void {
+    this.loading.forEach((loading, key) => {
+      if (matches(key)) {
+        loading.generation++;
+      }
+    });
+    for (const key of [...this.inflight.keys()]) {
+      if (matches(key)) {
+        this.inflight.delete(key);
+      }
+    }
   }
 
   /**
@@ -133,7 +345,8 @@ export class Cache {
 
     this.storage.forEach((item, key) => {
       if (item.ttl > 0 && now - item.timestamp > item.ttl) {
-        this.storage.delete(key);
+        this.remove(key);
+        this.countersFor(key).evictions++;
         deletedCount++;
       }
     });
@@ -147,11 +360,12 @@ export class Cache {
    * @returns Number of items deleted
    */
   public deleteByPrefix(prefix: string): number {
+    this.invalidate((key) => key.startsWith(prefix));
     let deletedCount = 0;
 
     this.storage.forEach((_, key) => {
       if (key.startsWith(prefix)) {
-        this.storage.delete(key);
+        this.remove(key);
         deletedCount++;
       }
     });
@@ -167,6 +381,137 @@ export class Cache {
     return this.storage.size;
   }
 
+  /**
+   * Get hit, miss and eviction counters, size and age, overall and per key
+   * prefix; counters cover the whole process lifetime, including cleared entries
+   * @returns Cache statistics
+   */
+  public getStats(): CacheStats {
+    const now = Date.now();
+    const emptyStats = (counters?: CacheCounters): CachePrefixStats => ({
+      hits: counters?.hits ?? 0,
+      misses: counters?.misses ?? 0,
+      diskHits: counters?.diskHits ?? 0,
+      coalesced: counters?.coalesced ?? 0,
+      evictions: counters?.evictions ?? 0,
+      entries: 0,
+      bytes: 0,
+      oldestEntryAge: null,
+    });
+
+    const prefixes: Record<string, CachePrefixStats> = {};
+    this.counters.forEach((counters, prefix) => {
+      prefixes[prefix] = emptyStats(counters);
+    });
+
+    const total = emptyStats();
+    this.storage.forEach((item, key) => {
+      if (item.ttl > 0 && now - item.timestamp > item.ttl) {
+        return;
+      }
+      const prefix = keyPrefix(key);
+      prefixes[prefix] = prefixes[prefix] || emptyStats();
+      const age = now - item.timestamp;
+      for (const stats of [prefixes[prefix], total]) {
+        stats.entries++;
+        stats.bytes += item.size;
+        stats.oldestEntryAge = Math.max(stats.oldestEntryAge ?? 0, age);
+      }
+    });
+
+    for (const stats of Object.values(prefixes)) {
+      total.hits += stats.hits;
+      total.misses += stats.misses;
+      total.diskHits += stats.diskHits;
+      total.coalesced += stats.coalesced;
+      total.evictions += stats.evictions;
+    }
+    return { ...total, limits: { ...this.limits }, prefixes };
+  }
+
+  /**
+   * Bound the cache: entries beyond the limits are evicted least recently
+   * used first, and expired entries are swept periodically
+   * @param limits Limits to change; the others keep their current values
+   */
+  public configure(limits: Partial<CacheLimits>): void {
+    this.limits = { ...this.limits, ...limits };
+    this.evictToLimits();
+    this.startSweeper();
+  }
+
+  /**
+   * Get the configured limits
+   */
+  public getLimits(): CacheLimits {
+    return { ...this.limits };
+  }
+
+  private store(key: string, item: CacheItem<any>): void {
+    this.remove(key);
+    this.storage.set(key, item);
+    this.bytes += item.size;
+    this.evictToLimits();
+  }
+
+  private remove(key: string): boolean {
+    const item = this.storage.get(key);
+    if (!item) {
+      return false;
+    }
+    this.bytes -= item.size;
+    return this.storage.delete(key);
+  }
+
+  /**
+   * Evict least recently used entries until the cache is within its limits
+   */
+  private evictToLimits(): void {
+    const { maxEntries, maxBytes } = this.limits;
+    while (
+      (maxEntries > 0 && this.storage.size > maxEntries) ||
+      (maxBytes > 0 && this.bytes > maxBytes)
+    ) {
+      const leastRecent = this.storage.keys().next().value as string;
+      this.remove(leastRecent);
+      this.countersFor(leastRecent).evictions++;
+    }
+  }
+
+  /**
+   * (Re)start the periodic sweep of expired entries
+   * The timer doesn't keep the process alive
+   */
+  private startSweeper(): void {
+    if (this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = null;
+    }
+    if (this.limits.sweepInterval > 0) {
+      this.sweeper = setInterval(
+        () => this.clearExpired(),
+        this.limits.sweepInterval,
+      );
+      this.sweeper.unref();
+    }
+  }
+
+  private countersFor(key: string): CacheCounters {
+    const prefix = keyPrefix(key);
+    let counters = this.counters.get(prefix);
+    if (!counters) {
+      counters = {
+        hits: 0,
+        misses: 0,
+        diskHits: 0,
+        coalesced: 0,
+        evictions: 0,
+      };
+      this.counters.set(prefix, counters);
+    }
+    return counters;
+  }
+
   /**
    * Set the default TTL for cache items
    * @param ttl New default TTL in milliseconds
@@ -179,6 +524,63 @@ export class Cache {
 // Export a singleton instance
 export const cache = Cache.getInstance();
 
+/**
+ * What a cached value was read from
+ * The key identifies the content sources, repository and ref; the ref alone
+ * decides how long the value stays fresh
+ */
+export interface CacheScope {
+  /** e.g. "local+github:grafana/grafana@v11.2.0" */
+  key: string;
+  /** Ref the value was read at; undefined for the default branch or working tree */
+  ref?: string;
+  /**
+   * Whether values may be kept in the disk tier; false for content read from
+   * the local machine, which is cheap to read again and may change in place
+   */
+  persistent?: boolean;
+}
+
+export type RefKind = "sha" | "tag" | "branch";
+
+/**
+ * Classify a git ref by how likely its content is to change
+ * @param ref Branch, tag or commit SHA (undefined for the default branch)
+ * @returns "sha" for commit SHAs, "tag" for release tags (v11.2.0), otherwise "branch"
+ */
+export function classifyRef(ref?: string | null): RefKind {
+  if (ref && /^[0-9a-f]{7,40}$/i.test(ref)) {
+    return "sha";
+  }
+  if (ref && /^v?\d+\.\d+(\.\d+)?([-+][\w.-]+)?$/.test(ref)) {
+    return "tag";
+  }
+  return "branch";
+}
+
+// How long content read at each kind of ref stays fresh: tags are effectively
+// immutable, branches move
+const REF_TTL = {
+  TAG: 7 * 24 * 60 * 60 * 1000, // 7 days - release tags are not moved
+  BRANCH: 10 * 60 * 1000, // 10 minutes - main and local working trees change
+};
+
+/**
+ * How long content read at a ref stays fresh
+ * @param ref Branch, tag or commit SHA (undefined for the default branch)
+ * @returns 0 (never stale) for commit SHAs, days for tags, minutes for branches
+ */
+export function refTTL(ref?: string | null): number {
+  switch (classifyRef(ref)) {
+    case "sha":
+      return 0;
+    case "tag":
+      return REF_TTL.TAG;
+    default:
+      return REF_TTL.BRANCH;
+  }
+}
+
 /**
  * Grafana UI specific cache utilities
  */
@@ -192,7 +594,9 @@ export class GrafanaUICache {
     COMPONENT_METADATA: 6 * 60 * 60 * 1000, // 6 hours - metadata changes occasionally
     COMPONENT_STORIES: 6 * 60 * 60 * 1000, // 6 hours - stories change occasionally
     COMPONENT_DOCS: 6 * 60 * 60 * 1000, // 6 hours - docs change occasionally
+    COMPONENT_TESTS: 6 * 60 * 60 * 1000, // 6 hours - tests change occasionally
     DIRECTORY_STRUCTURE: 24 * 60 * 60 * 1000, // 24 hours - directory structure changes rarely
+    FILE: 12 * 60 * 60 * 1000, // 12 hours - other repository files (barrels, themes)
     RATE_LIMIT: 5 * 60 * 1000, // 5 minutes - rate limit info changes frequently
     PARSED_METADATA: 12 * 60 * 60 * 1000, // 12 hours - parsed metadata is expensive to compute
   };
@@ -201,60 +605,111 @@ export class GrafanaUICache {
     this.cache = cache;
   }
 
+  /**
+   * TTL for a kind of data read at a scope's ref
+   * Commit SHAs never expire (TTL 0), tags keep data for days, and branches
+   * for at most a few minutes
+   */
+  private ttlFor(ttl: number, scope?: CacheScope): number {
+    if (!scope) {
+      return ttl;
+    }
+    switch (classifyRef(scope.ref)) {
+      case "sha":
+        return 0;
+      case "tag":
+        return Math.max(ttl, refTTL(scope.ref));
+      default:
+        return Math.min(ttl, refTTL(scope.ref));
+    }
+  }
+
+  /**
+   * Append the scope to a key, so the same component read at another ref or
+   * from other sources gets its own entry
+   */
+  private scoped(key: string, scope?: CacheScope): string {
+    return scope ? `${key}@${scope.key}` : key;
+  }
+
   /**
    * Generate cache key for component source code
    */
-  componentSourceKey(componentName: string): string {
-    return `component:${componentName}:source`;
+  componentSourceKey(componentName: string, scope?: CacheScope): string {
+    return this.scoped(`component:${componentName}:source`, scope);
   }
 
   /**
    * Generate cache key for component metadata
    */
-  componentMetadataKey(componentName: string): string {
-    return `component:${componentName}:metadata`;
+  componentMetadataKey(componentName: string, scope?: CacheScope): string {
+    return this.scoped(`component:${componentName}:metadata`, scope);
   }
 
   /**
    * Generate cache key for component stories
    */
-  componentStoriesKey(componentName: string): string {
-    return `component:${componentName}:stories`;
+  componentStoriesKey(componentName: string, scope?: CacheScope): string {
+    return this.scoped(`component:${componentName}:stories`, scope);
   }
 
   /**
    * Generate cache key for component documentation
    */
-  componentDocsKey(componentName: string): string {
-    return `component:${componentName}:docs`;
+  componentDocsKey(componentName: string, scope?: CacheScope): string {
+    return this.scoped(`component:${componentName}:docs`, scope);
+  }
+
+  /**
+   * Generate cache key for component tests
+   */
+  componentTestsKey(componentName: string, scope?: CacheScope): string {
+    return this.scoped(`component:${componentName}:tests`, scope);
   }
 
   /**
    * Generate cache key for component files
    */
-  componentFilesKey(componentName: string): string {
-    return `component:${componentName}:files`;
+  componentFilesKey(componentName: string, scope?: CacheScope): string {
+    return this.scoped(`component:${componentName}:files`, scope);
   }
 
   /**
    * Generate cache key for parsed component metadata
    */
-  componentParsedMetadataKey(componentName: string): string {
-    return `component:${componentName}:parsed-metadata`;
+  componentParsedMetadataKey(
+    componentName: string,
+    scope?: CacheScope,
+  ): string {
+    return this.scoped(`component:${componentName}:parsed-metadata`, scope);
   }
 
   /**
    * Generate cache key for component list
    */
-  componentListKey(): string {
-    return "components:list";
+  componentListKey(scope?: CacheScope): string {
+    return this.scoped("components:list", scope);
   }
 
   /**
    * Generate cache key for directory structure
    */
-  directoryStructureKey(path?: string): string {
-    return `directory:${path || "components"}:structure`;
+  directoryStructureKey(path?: string, scope?: CacheScope): string {
+    return this.scoped(`directory:${path || "components"}:structure`, scope);
+  }
+
+  /**
+   * Generate cache key for a single directory listing
+   */
+  directoryListingKey(path: string, scope?: CacheScope): string {
+    return this.scoped(`directory:${path}:listing`, scope);
+  }
+
+  /**
+   * Generate cache key for a repository file
+   */
+  fileKey(filePath: string, scope?: CacheScope): string {
+    return this.scoped(`file:${filePath}`, scope);
   }
 
   /**
@@ -267,14 +722,16 @@ export class GrafanaUICache {
   /**
    * Cache component source code
    */
-  async getOrFetchComponentSource(
+  async getOrFetchComponentSource<T>(
     componentName: string,
-    fetchFn: () => Promise<string>,
-  ): Promise<string> {
+    fetchFn: () => Promise<T>,
+    scope?: CacheScope,
+  ): Promise<T> {
     return this.cache.getOrFetch(
-      this.componentSourceKey(componentName),
+      this.componentSourceKey(componentName, scope),
       fetchFn,
-      GrafanaUICache.TTL.COMPONENT_SOURCE,
+      this.ttlFor(GrafanaUICache.TTL.COMPONENT_SOURCE, scope),
+      scope?.persistent,
     );
   }
 
@@ -284,39 +741,61 @@ export class GrafanaUICache {
   async getOrFetchComponentMetadata(
     componentName: string,
     fetchFn: () => Promise<any>,
+    scope?: CacheScope,
   ): Promise<any> {
     return this.cache.getOrFetch(
-      this.componentMetadataKey(componentName),
+      this.componentMetadataKey(componentName, scope),
       fetchFn,
-      GrafanaUICache.TTL.COMPONENT_METADATA,
+      this.ttlFor(GrafanaUICache.TTL.COMPONENT_METADATA, scope),
+      scope?.persistent,
     );
   }
 
   /**
    * Cache component stories
    */
-  async getOrFetchComponentStories(
+  async getOrFetchComponentStories<T>(
     componentName: string,
-    fetchFn: () => Promise<string>,
-  ): Promise<string> {
+    fetchFn: () => Promise<T>,
+    scope?: CacheScope,
+  ): Promise<T> {
     return this.cache.getOrFetch(
-      this.componentStoriesKey(componentName),
+      this.componentStoriesKey(componentName, scope),
       fetchFn,
-      GrafanaUICache.TTL.COMPONENT_STORIES,
+      this.ttlFor(GrafanaUICache.TTL.COMPONENT_STORIES, scope),
+      scope?.persistent,
     );
   }
 
   /**
    * Cache component documentation
    */
-  async getOrFetchComponentDocs(
+  async getOrFetchComponentDocs<T>(
     componentName: string,
-    fetchFn: () => Promise<string>,
-  ): Promise<string> {
+    fetchFn: () => Promise<T>,
+    scope?: CacheScope,
+  ): Promise<T> {
     return this.cache.getOrFetch(
-      this.componentDocsKey(componentName),
+      this.componentDocsKey(componentName, scope),
       fetchFn,
-      GrafanaUICache.TTL.COMPONENT_DOCS,
+      this.ttlFor(GrafanaUICache.TTL.COMPONENT_DOCS, scope),
+      scope?.persistent,
+    );
+  }
+
+  /**
+   * Cache component tests
+   */
+  async getOrFetchComponentTests<T>(
+    componentName: string,
+    fetchFn: () => Promise<T>,
+    scope?: CacheScope,
+  ): Promise<T> {
+    return this.cache.getOrFetch(
+      this.componentTestsKey(componentName, scope),
+      fetchFn,
+      this.ttlFor(GrafanaUICache.TTL.COMPONENT_TESTS, scope),
+      scope?.persistent,
     );
   }
 
@@ -326,11 +805,13 @@ export class GrafanaUICache {
   async getOrFetchComponentFiles(
     componentName: string,
     fetchFn: () => Promise<any>,
+    scope?: CacheScope,
   ): Promise<any> {
     return this.cache.getOrFetch(
-      this.componentFilesKey(componentName),
+      this.componentFilesKey(componentName, scope),
       fetchFn,
-      GrafanaUICache.TTL.COMPONENT_METADATA,
+      this.ttlFor(GrafanaUICache.TTL.COMPONENT_METADATA, scope),
+      scope?.persistent,
     );
   }
 
@@ -340,11 +821,13 @@ export class GrafanaUICache {
   async getOrFetchParsedMetadata(
     componentName: string,
     fetchFn: () => Promise<any>,
+    scope?: CacheScope,
   ): Promise<any> {
     return this.cache.getOrFetch(
-      this.componentParsedMetadataKey(componentName),
+      this.componentParsedMetadataKey(componentName, scope),
       fetchFn,
-      GrafanaUICache.TTL.PARSED_METADATA,
+      this.ttlFor(GrafanaUICache.TTL.PARSED_METADATA, scope),
+      scope?.persistent,
     );
   }
 
@@ -353,11 +836,13 @@ export class GrafanaUICache {
    */
   async getOrFetchComponentList(
     fetchFn: () => Promise<string[]>,
+    scope?: CacheScope,
   ): Promise<string[]> {
     return this.cache.getOrFetch(
-      this.componentListKey(),
+      this.componentListKey(scope),
       fetchFn,
-      GrafanaUICache.TTL.COMPONENT_LIST,
+      this.ttlFor(GrafanaUICache.TTL.COMPONENT_LIST, scope),
+      scope?.persistent,
     );
   }
 
@@ -367,11 +852,45 @@ export class GrafanaUICache {
   async getOrFetchDirectoryStructure(
     path: string,
     fetchFn: () => Promise<any>,
+    scope?: CacheScope,
   ): Promise<any> {
     return this.cache.getOrFetch(
-      this.directoryStructureKey(path),
+      this.directoryStructureKey(path, scope),
       fetchFn,
-      GrafanaUICache.TTL.DIRECTORY_STRUCTURE,
+      this.ttlFor(GrafanaUICache.TTL.DIRECTORY_STRUCTURE, scope),
+      scope?.persistent,
+    );
+  }
+
+  /**
+   * Cache a single directory listing
+   */
+  async getOrFetchDirectoryListing<T>(
+    path: string,
+    fetchFn: () => Promise<T>,
+    scope?: CacheScope,
+  ): Promise<T> {
+    return this.cache.getOrFetch(
+      this.directoryListingKey(path, scope),
+      fetchFn,
+      this.ttlFor(GrafanaUICache.TTL.DIRECTORY_STRUCTURE, scope),
+      scope?.persistent,
+    );
+  }
+
+  /**
+   * Cache a repository file outside the per-component entries
+   */
+  async getOrFetchFile<T>(
+    filePath: string,
+    fetchFn: () => Promise<T>,
+    scope?: CacheScope,
+  ): Promise<T> {
+    return this.cache.getOrFetch(
+      this.fileKey(filePath, scope),
+      fetchFn,
+      this.ttlFor(GrafanaUICache.TTL.FILE, scope),
+      scope?.persistent,
     );
   }
 
@@ -402,46 +921,30 @@ export class GrafanaUICache {
    */
   invalidateAllComponents(): void {
     this.cache.deleteByPrefix("component:");
-    this.cache.delete(this.componentListKey());
+    this.cache.deleteByPrefix(this.componentListKey());
+  }
+
+  /**
+   * Invalidate the cached rate limit info
+   */
+  invalidateRateLimit(): void {
+    this.cache.delete(this.rateLimitKey());
+  }
+
+  /**
+   * Drop every value held in memory (e.g. after the content sources change)
+   * The disk tier only holds values from remote sources, keyed by source,
+   * repository and ref, so it stays valid
+   */
+  clear(): void {
+    this.cache.clear();
   }
 
   /**
    * Get cache statistics
    */
-  getStats(): {
-    totalItems: number;
-    componentSourceCached: number;
-    componentMetadataCached: number;
-    componentStoriesCached: number;
-    componentDocsCached: number;
-    expiredItems: number;
-  } {
-    const totalItems = this.cache.size();
-
-    // Count different types of cached items
-    let componentSourceCached = 0;
-    let componentMetadataCached = 0;
-    let componentStoriesCached = 0;
-    let componentDocsCached = 0;
-
-    // This is a simple approximation - in a real implementation,
-    // we'd iterate through the cache keys to count by pattern
-    const estimatedItemsPerType = Math.floor(totalItems / 4);
-    componentSourceCached = estimatedItemsPerType;
-    componentMetadataCached = estimatedItemsPerType;
-    componentStoriesCached = estimatedItemsPerType;
-    componentDocsCached = estimatedItemsPerType;
-
-    const expiredItems = this.cache.clearExpired();
-
-    return {
-      totalItems,
-      componentSourceCached,
-      componentMetadataCached,
-      componentStoriesCached,
-      componentDocsCached,
-      expiredItems,
-    };
+  getStats(): CacheStats {
+    return this.cache.getStats();
   }
 
   /**
@@ -450,29 +953,42 @@ export class GrafanaUICache {
   async warmUp(
     commonComponents: string[],
     fetchFunctions: {
-      getComponentSource: (name: string) => Promise<string>;
+      getComponentSource: (name: string) => Promise<any>;
       getComponentMetadata: (name: string) => Promise<any>;
-      getComponentStories: (name: string) => Promise<string>;
-      getComponentDocs: (name: string) => Promise<string>;
+      getComponentStories: (name: string) => Promise<any>;
+      getComponentDocs: (name: string) => Promise<any>;
     },
-  ): Promise<void> {
+    scope?: CacheScope,
+  ): Promise<{ cached: number; failed: number }> {
     const promises = commonComponents.flatMap((componentName) => [
-      this.getOrFetchComponentSource(componentName, () =>
-        fetchFunctions.getComponentSource(componentName),
+      this.getOrFetchComponentSource(
+        componentName,
+        () => fetchFunctions.getComponentSource(componentName),
+        scope,
       ),
-      this.getOrFetchComponentMetadata(componentName, () =>
-        fetchFunctions.getComponentMetadata(componentName),
+      this.getOrFetchComponentMetadata(
+        componentName,
+        () => fetchFunctions.getComponentMetadata(componentName),
+        scope,
       ),
-      this.getOrFetchComponentStories(componentName, () =>
-        fetchFunctions.getComponentStories(componentName),
+      this.getOrFetchComponentStories(
+        componentName,
+        () => fetchFunctions.getComponentStories(componentName),
+        scope,
       ),
-      this.getOrFetchComponentDocs(componentName, () =>
-        fetchFunctions.getComponentDocs(componentName),
+      this.getOrFetchComponentDocs(
+        componentName,
+        () => fetchFunctions.getComponentDocs(componentName),
+        scope,
       ),
     ]);
 
     // Execute all requests in parallel, but catch errors to prevent one failure from stopping others
-    await Promise.allSettled(promises);
+    const results = await Promise.allSettled(promises);
+    const cached = results.filter(
+      (result) => result.status === "fulfilled" && result.value !== null,
+    ).length;
+    return { cached, failed: results.length - cached };
   }
 }
 
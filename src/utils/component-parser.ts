@@ -3,10 +3,23 @@
  * Extracts metadata, props, imports, exports, and dependencies from component source code
  */
 
+import { Deprecation } from "./deprecations.js";
+import {
+  PropExtractor,
+  PropTypeReader,
+  findComponent,
+} from "./prop-extractor.js";
+
 export interface ComponentMetadata {
   name: string;
   description?: string;
+  /** The component's @deprecated tag, or null */
+  deprecation?: Deprecation | null;
+  /** Props type as written, or null when the component's props aren't typed */
+  propsType?: string | null;
   props: PropDefinition[];
+  /** Parts of the props type that couldn't be followed */
+  externalPropTypes?: string[];
   exports: ExportDefinition[];
   imports: ImportDefinition[];
   dependencies: string[];
@@ -15,12 +28,58 @@ export interface ComponentMetadata {
   hasDocumentation: boolean;
 }
 
+/**
+ * Metadata reported by get_metadata: the parsed component plus what the
+ * component's directory contains
+ */
+export interface ComponentMetadataResult {
+  name: string;
+  type: "grafana-ui-component";
+  /** Content source the directory was listed from */
+  source: string;
+  ref: string | null;
+  exportName: string;
+  file: string;
+  directory: string;
+  resolvedBy: "exports" | "convention";
+  description: string | null;
+  deprecation: Deprecation | null;
+  propsType: string | null;
+  props: PropDefinition[];
+  deprecatedProps: Array<Deprecation & { name: string }>;
+  propCounts: { own: number; inherited: number; dom: number };
+  externalPropTypes: string[];
+  files: string[];
+  hasImplementation: boolean;
+  hasStories: boolean;
+  hasDocumentation: boolean;
+  hasTests: boolean;
+  hasTypes: boolean;
+  hasUtils: boolean;
+  hasStyles: boolean;
+  totalFiles: number;
+}
+
 export interface PropDefinition {
   name: string;
   type: string;
   required: boolean;
   description?: string;
   defaultValue?: string;
+  /** Where defaultValue comes from: a @default tag or a destructuring default */
+  defaultSource?: "jsdoc" | "destructuring";
+  /**
+   * A member of the component's props type ("own"), of a type it extends,
+   * intersects or wraps in Omit/Pick/Partial ("inherited"), or a DOM
+   * attribute passed through ("dom")
+   */
+  origin?: "own" | "inherited" | "dom";
+  /** Type an inherited prop is declared in, or the DOM type a DOM attribute comes from */
+  inheritedFrom?: string;
+  /** File declaring an inherited prop */
+  declaredIn?: string;
+  /** The prop's @deprecated tag */
+  deprecation?: Deprecation;
 }
 
 export interface ExportDefinition {
@@ -29,6 +88,31 @@ export interface ExportDefinition {
   isDefault?: boolean;
 }
 
+export interface PropTypeChange {
+  name: string;
+  fromType: string;
+  toType: string;
+}
+
+export interface PropsDiff {
+  added: PropDefinition[];
+  removed: PropDefinition[];
+  retyped: PropTypeChange[];
+  /** Props required in the newer version that were optional or absent before */
+  newlyRequired: PropDefinition[];
+}
+
+/** A component file compared between two refs */
+export interface ComponentFileDiff {
+  path: string;
+  status: "added" | "removed" | "modified" | "unchanged" | "missing";
+  /** Content sources the file was read from at each ref */
+  fromSource: string | null;
+  toSource: string | null;
+  /** Unified diff of the file */
+  diff: string;
+}
+
 export interface ImportDefinition {
   module: string;
   imports: string[];
@@ -40,29 +124,49 @@ export interface ImportDefinition {
  * Parse TypeScript component code and extract all metadata
  * @param componentName Name of the component
  * @param code TypeScript source code
- * @returns ComponentMetadata object
+ * @param fileName Repository path of the file; its extension picks the parser (.tsx, .ts or .d.ts)
+ * @param reader Reads the files props types are imported from (default: only
+ * types declared in the file are expanded)
+ * @returns Promise with the ComponentMetadata object
  */
-export function parseComponentMetadata(
+export async function parseComponentMetadata(
   componentName: string,
   code: string,
-): ComponentMetadata {
+  fileName?: string,
+  reader?: PropTypeReader,
+): Promise<ComponentMetadata> {
   const imports = extractImportsFromCode(code);
   const exports = extractExportsFromCode(code);
   const dependencies = extractDependencies(code);
 
-  // Try to find props interface - look for ComponentProps pattern
-  const propsInterfaceName = findPropsInterface(code, componentName);
-  const props = propsInterfaceName
-    ? extractPropsFromCode(code, propsInterfaceName)
-    : [];
+  const component = findComponent(
+    await new PropExtractor(reader).extractComponents(code, fileName),
+    componentName,
+  );
+  let props = component?.props ?? [];
+
+  // Fall back to the candidate props interfaces when the component's
+  // declaration isn't recognized, trying each until one yields props
+  if (!component) {
+    for (const propsInterfaceName of findPropsInterfaces(code, componentName)) {
+      props = extractPropsFromCode(code, propsInterfaceName);
+      if (props.length > 0) {
+        break;
+      }
+    }
+  }
 
   // Extract description from JSDoc comments
-  const description = extractComponentDescription(code, componentName);
+  const description =
+    component?.description ?? extractComponentDescription(code, componentName);
 
   return {
     name: componentName,
     description,
+    deprecation: component?.deprecation ?? null,
+    propsType: component?.propsType ?? null,
     props,
+    externalPropTypes: component?.externalPropTypes ?? [],
     exports: parseExports(exports),
     imports: parseImports(code),
     dependencies,
@@ -146,9 +250,9 @@ export function extractPropsFromCode(
 ): PropDefinition[] {
   const props: PropDefinition[] = [];
 
-  // Find the interface definition
+  // Find the interface definition (optionally generic and/or extending other types)
   const interfaceRegex = new RegExp(
-    `(?:type|interface)\\s+${interfaceName}\\s*=?\\s*\\{([^}]*)\\}`,
+    `(?:type|interface)\\s+${escapeRegExp(interfaceName)}(?:<[^>{]*>)?(?:\\s+extends\\s+[^{]+)?\\s*=?\\s*\\{([^}]*)\\}`,
     "s",
   );
   const match = code.match(interfaceRegex);
@@ -215,33 +319,43 @@ export function extractPropsFromCode(
 }
 
 /**
- * Find the props interface name for a component
+ * Escape a string for use inside a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Find candidate props interface names for a component, most specific first
  * @param code TypeScript source code
  * @param componentName Name of the component
- * @returns Props interface name if found
+ * @returns Props interface names declared in the code
  */
-function findPropsInterface(
-  code: string,
-  componentName: string,
-): string | null {
+function findPropsInterfaces(code: string, componentName: string): string[] {
   // Common patterns for props interfaces
   const patterns = [
     `${componentName}Props`,
     `I${componentName}Props`,
     `${componentName}Properties`,
+    "Props", // Most Grafana UI components use a module-private Props interface
     "CommonProps", // Fallback for some components
   ];
 
-  for (const pattern of patterns) {
-    if (
-      code.includes(`type ${pattern}`) ||
-      code.includes(`interface ${pattern}`)
-    ) {
-      return pattern;
-    }
+  // Bundled declaration files (e.g. @grafana/ui's dist/index.d.ts) rename
+  // private types (Props$3), so also look at the component's own declaration
+  const declarationRegex = new RegExp(
+    `declare\\s+(?:const|function)\\s+${escapeRegExp(componentName)}\\b[^;]*`,
+  );
+  const declaration = code.match(declarationRegex);
+  if (declaration) {
+    const referenced = declaration[0].match(/\b[A-Z][\w$]*Props[\w$]*/g);
+    patterns.push(...(referenced || []));
   }
 
-  return null;
+  return [...new Set(patterns)].filter(
+    (pattern) =>
+      code.includes(`type ${pattern}`) || code.includes(`interface ${pattern}`),
+  );
 }
 
 /**
@@ -364,3 +478,48 @@ function inferExportType(name: string): ExportDefinition["type"] {
 function extractDependencies(code: string): string[] {
   return extractImportsFromCode(code);
 }
+
+/**
+ * Normalize a type string so formatting differences don't count as changes
+ * @param type Type text
+ * @returns Normalized type text
+ */
+function normalizeType(type: string): string {
+  return type.replace(/\s+/g, " ").replace(/'/g, '"').replace(/;$/, "").trim();
+}
+
+/**
+ * Compare two versions of a component's props
+ * @param fromProps Props of the older version
+ * @param toProps Props of the newer version
+ * @returns Props that were added, removed, retyped or became required
+ */
+export function diffProps(
+  fromProps: PropDefinition[],
+  toProps: PropDefinition[],
+): PropsDiff {
+  const fromByName = new Map(fromProps.map((prop) => [prop.name, prop]));
+  const toByName = new Map(toProps.map((prop) => [prop.name, prop]));
+
+  const added = toProps.filter((prop) => !fromByName.has(prop.name));
+  const removed = fromProps.filter((prop) => !toByName.has(prop.name));
+  const retyped: PropTypeChange[] = [];
+  const newlyRequired: PropDefinition[] = [];
+
+  for (const prop of toProps) {
+    const previous = fromByName.get(prop.name);
+
+    if (previous && normalizeType(previous.type) !== normalizeType(prop.type)) {
+      retyped.push({
+        name: prop.name,
+        fromType: previous.type,
+        toType: prop.type,
+      });
+    }
+    if (prop.required && (!previous || !previous.required)) {
+      newlyRequired.push(prop);
+    }
+  }
+
+  return { added, removed, retyped, newlyRequired };
+}
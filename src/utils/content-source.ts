@@ -0,0 +1,679 @@
+/**
+ * Content sources for reading Grafana repository files
+ * Each source knows how to read files and list directories from one backend
+ * (local checkout, GitHub, ...). A ContentSourceChain tries the configured
+ * sources in order and reports which one served each result.
+ */
+
+import { Axios } from "axios";
+import { execFile } from "child_process";
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import { promisify } from "util";
+import { refTTL } from "./cache.js";
+import { GitTreeItem, RepoTreeIndex } from "./tree-index.js";
+
+const execFileAsync = promisify(execFile);
+
+export interface DirEntry {
+  name: string;
+  path: string;
+  type: "file" | "dir";
+  size?: number;
+  sha?: string;
+  /** Direct download URL, when the source has one */
+  url?: string;
+}
+
+export interface SourceStat {
+  path: string;
+  type: "file" | "dir";
+  size?: number;
+  sha?: string;
+}
+
+export interface SourceFile {
+  path: string;
+  content: string;
+  source: string;
+}
+
+export interface SourceListing {
+  path: string;
+  entries: DirEntry[];
+  source: string;
+}
+
+/**
+ * A backend that can serve repository content.
+ * Paths are always repository-relative and use forward slashes
+ * (e.g. "packages/grafana-ui/src/components/Button/Button.tsx").
+ * Methods resolve to null when the path does not exist in this source,
+ * which lets the chain fall through to the next source; they throw only
+ * for real failures (network errors, rate limits, ...).
+ */
+export interface ContentSource {
+  /** Short identifier reported with every result (e.g. "local", "github") */
+  readonly name: string;
+  /** Human readable description used in error messages */
+  readonly description: string;
+  readFile(filePath: string, ref?: string): Promise<string | null>;
+  listDir(dirPath: string, ref?: string): Promise<DirEntry[] | null>;
+  stat(filePath: string, ref?: string): Promise<SourceStat | null>;
+  /**
+   * Resolve a branch, tag or SHA to a commit SHA
+   * @returns The commit SHA, or null if the source cannot resolve refs
+   */
+  resolveRef(ref?: string): Promise<string | null>;
+}
+
+// Upper bound for git output when reading objects at a ref
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * Compute the git blob SHA of file content, as `git hash-object` would
+ * This matches the SHAs GitHub reports for the same content
+ */
+function gitBlobSha(content: Buffer): string {
+  return createHash("sha1")
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest("hex");
+}
+
+/**
+ * Check that a git ref can be passed to git as a revision
+ * Refs starting with "-" would be parsed as options (e.g. "--output=<file>"),
+ * and ":" or whitespace would change what `git show <ref>:<path>` reads
+ * @param ref Branch, tag or commit SHA
+ * @returns Whether the ref is safe to use
+ */
+export function isValidGitRef(ref: string): boolean {
+  return (
+    ref.length > 0 &&
+    !ref.startsWith("-") &&
+    !ref.includes("..") &&
+    !/[\s:?*[\\\x00-\x1f\x7f]/.test(ref)
+  );
+}
+
+/**
+ * Throw for refs isValidGitRef rejects, before they reach git
+ */
+function assertValidGitRef(ref: string): void {
+  if (!isValidGitRef(ref)) {
+    throw new Error(`Invalid git ref "${ref}"`);
+  }
+}
+
+/**
+ * Reads content from a local checkout of the Grafana repository.
+ * Without a ref the working tree is read; with a ref (branch, tag or SHA)
+ * objects are read from git at that ref instead.
+ */
+export class LocalFsSource implements ContentSource {
+  readonly name = "local";
+  readonly description = "local repository";
+
+  constructor(private readonly root: string) {}
+
+  /**
+   * Map a repository path to the file system
+   * @throws When the path would leave the repository (e.g. "../../etc")
+   */
+  private resolve(filePath: string): string {
+    const root = path.resolve(this.root);
+    const resolved = path.resolve(root, ...filePath.split("/"));
+    const relative = path.relative(root, resolved);
+    if (
+      relative === ".." ||
+      relative.startsWith(`..${path.sep}`) ||
+      path.isAbsolute(relative)
+    ) {
+      throw new Error(`Path "${filePath}" is outside the local repository`);
+    }
+    return resolved;
+  }
+
+  private async hashFile(filePath: string): Promise<string | undefined> {
+    try {
+      return gitBlobSha(await fs.promises.readFile(this.resolve(filePath)));
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private async git(args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync("git", args, {
+      cwd: this.root,
+      maxBuffer: GIT_MAX_BUFFER,
+    });
+    return stdout;
+  }
+
+  /**
+   * List tree entries at a ref using `git ls-tree -l`
+   * Each line looks like "<mode> <type> <sha> <size>\t<path>"
+   */
+  private async lsTree(ref: string, target: string): Promise<DirEntry[]> {
+    assertValidGitRef(ref);
+    const output = await this.git(["ls-tree", "-l", ref, "--", target]);
+    return output
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => {
+        const [info, entryPath] = line.split("\t");
+        const [, type, sha, size] = info.split(/\s+/);
+        return {
+          name: entryPath.split("/").pop() || entryPath,
+          path: entryPath,
+          type: type === "tree" ? ("dir" as const) : ("file" as const),
+          size: type === "blob" ? Number(size) : undefined,
+          sha,
+        };
+      })
+      .filter((entry) => entry.path);
+  }
+
+  async readFile(filePath: string, ref?: string): Promise<string | null> {
+    try {
+      if (ref) {
+        assertValidGitRef(ref);
+        return await this.git(["show", `${ref}:${filePath}`]);
+      }
+      return await fs.promises.readFile(this.resolve(filePath), "utf8");
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async listDir(dirPath: string, ref?: string): Promise<DirEntry[] | null> {
+    try {
+      if (ref) {
+        const entries = await this.lsTree(ref, `${dirPath}/`);
+        return entries.length > 0 ? entries : null;
+      }
+
+      const items = await fs.promises.readdir(this.resolve(dirPath), {
+        withFileTypes: true,
+      });
+      return Promise.all(
+        items
+          .filter((item) => item.isFile() || item.isDirectory())
+          .map(async (item): Promise<DirEntry> => {
+            const entryPath = `${dirPath}/${item.name}`;
+            if (item.isDirectory()) {
+              return { name: item.name, path: entryPath, type: "dir" };
+            }
+            return {
+              name: item.name,
+              path: entryPath,
+              type: "file",
+              sha: await this.hashFile(entryPath),
+            };
+          }),
+      );
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async stat(filePath: string, ref?: string): Promise<SourceStat | null> {
+    try {
+      if (ref) {
+        const [entry] = await this.lsTree(ref, filePath);
+        return entry
+          ? {
+              path: filePath,
+              type: entry.type,
+              size: entry.size,
+              sha: entry.sha,
+            }
+          : null;
+      }
+
+      const stats = await fs.promises.stat(this.resolve(filePath));
+      if (stats.isDirectory()) {
+        return { path: filePath, type: "dir" };
+      }
+      return {
+        path: filePath,
+        type: "file",
+        size: stats.size,
+        sha: await this.hashFile(filePath),
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  async resolveRef(ref: string = "HEAD"): Promise<string | null> {
+    try {
+      assertValidGitRef(ref);
+      const output = await this.git([
+        "rev-parse",
+        "--verify",
+        "--end-of-options",
+        `${ref}^{commit}`,
+      ]);
+      return output.trim() || null;
+    } catch (error) {
+      return null;
+    }
+  }
+}
+
+/**
+ * Storage for file contents addressed by git blob SHA
+ */
+export interface BlobStore {
+  getBlob(sha: string): Promise<string | null>;
+  setBlob(sha: string, content: string): Promise<void>;
+}
+
+export interface GitHubSourceOptions {
+  api: Axios;
+  raw: Axios;
+  owner: string;
+  repo: string;
+  defaultRef: string;
+  /**
+   * Repository subtrees to index with one recursive git Trees API request per
+   * subtree and ref (e.g. "packages/grafana-ui"); listings below them are
+   * served from the index. Each subtree is fetched the first time it is used.
+   */
+  indexRoots?: string[];
+  /**
+   * Keeps downloaded file contents by blob SHA; files whose SHA an unexpired
+   * tree index knows (any index of a commit SHA) are then read from it
+   * instead of downloaded again
+   */
+  blobStore?: BlobStore;
+  /** Used in error messages (default: "<owner>/<repo> repository") */
+  description?: string;
+}
+
+/**
+ * Reads content from GitHub using the REST API for listings and
+ * raw.githubusercontent.com for file contents
+ */
+export class GitHubSource implements ContentSource {
+  readonly name = "github";
+  readonly description: string;
+
+  // Tree indexes per "<root>@<ref>"; null when the subtree can't be indexed at that ref.
+  // Indexes of branches and tags expire like other content read at the ref
+  private readonly indexes = new Map<
+    string,
+    { index: Promise<RepoTreeIndex | null>; expiresAt: number }
+  >();
+
+  constructor(private readonly options: GitHubSourceOptions) {
+    this.description =
+      options.description ?? `${options.owner}/${options.repo} repository`;
+  }
+
+  private rawPath(filePath: string, ref?: string): string {
+    const { owner, repo, defaultRef } = this.options;
+    // Refs keep their slashes (feature/x) but may hold "#", "%" or "?"
+    const encodedRef = (ref || defaultRef)
+      .split("/")
+      .map(encodeURIComponent)
+      .join("/");
+    return `/${owner}/${repo}/${encodedRef}/${filePath}`;
+  }
+
+  /**
+   * Get the tree index covering a path, fetching it once per ref and again
+   * when it expires (commit SHAs never expire)
+   * @param fetchIfMissing Whether to fetch an index that isn't loaded or has expired
+   * @returns The index, or null when the path is outside the indexed subtrees
+   * or the subtree couldn't be indexed (listings then use the contents API)
+   */
+  async getIndex(
+    filePath: string,
+    ref?: string,
+    fetchIfMissing = true,
+  ): Promise<RepoTreeIndex | null> {
+    const { indexRoots = [], defaultRef } = this.options;
+    const indexRoot = indexRoots.find(
+      (root) => filePath === root || filePath.startsWith(`${root}/`),
+    );
+    if (!indexRoot) {
+      return null;
+    }
+
+    const resolvedRef = ref || defaultRef;
+    const key = `${indexRoot}@${resolvedRef}`;
+    let entry = this.indexes.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.indexes.delete(key);
+      entry = undefined;
+    }
+    if (!entry && !fetchIfMissing) {
+      return null;
+    }
+    if (!entry) {
+      const ttl = refTTL(resolvedRef);
+      const loaded = {
+        index: this.fetchIndex(indexRoot, resolvedRef),
+        expiresAt: ttl > 0 ? Date.now() + ttl : Infinity,
+      };
+      entry = loaded;
+      this.indexes.set(key, loaded);
+      // Don't remember failures; the next call retries
+      loaded.index.catch(() => {
+        if (this.indexes.get(key) === loaded) {
+          this.indexes.delete(key);
+        }
+      });
+    }
+    return entry.index;
+  }
+
+  /**
+   * Drop the loaded tree index covering a path at a ref
+   */
+  private dropIndex(filePath: string, ref?: string): void {
+    const { indexRoots = [], defaultRef } = this.options;
+    const indexRoot = indexRoots.find(
+      (root) => filePath === root || filePath.startsWith(`${root}/`),
+    );
+    if (indexRoot) {
+      this.indexes.delete(`${indexRoot}@${ref || defaultRef}`);
+    }
+  }
+
+  /**
+   * Drop the loaded tree indexes; they are fetched again when next needed
+   */
+  clearIndexes(): void {
+    this.indexes.clear();
+  }
+
+  /**
+   * Fetch the recursive tree of a subtree: one contents request on the parent
+   * directory to find the subtree's SHA, then one git Trees request
+   */
+  private async fetchIndex(
+    root: string,
+    ref: string,
+  ): Promise<RepoTreeIndex | null> {
+    const { owner, repo } = this.options;
+    const separator = root.lastIndexOf("/");
+    const parent = separator === -1 ? "" : root.slice(0, separator);
+    const name = root.slice(separator + 1);
+
+    const parentResponse = await this.options.api.get(
+      this.contentsUrl(parent, ref),
+    );
+    if (parentResponse.status === 404) {
+      return null;
+    }
+    assertOk(parentResponse.status, parentResponse.data, parent || "/");
+
+    const tree = Array.isArray(parentResponse.data)
+      ? parentResponse.data.find(
+          (item: any) => item.name === name && item.type === "dir",
+        )
+      : null;
+    if (!tree) {
+      return null;
+    }
+
+    const treeResponse = await this.options.api.get(
+      `/repos/${owner}/${repo}/git/trees/${tree.sha}?recursive=1`,
+    );
+    assertOk(treeResponse.status, treeResponse.data, root);
+
+    // Truncated trees are incomplete; fall back to per-directory listings
+    if (treeResponse.data.truncated) {
+      return null;
+    }
+
+    const rawBase = String(this.options.raw.defaults.baseURL || "");
+    return new RepoTreeIndex(
+      root,
+      tree.sha,
+      treeResponse.data.tree as GitTreeItem[],
+      (filePath) => `${rawBase}${this.rawPath(filePath, ref)}`,
+    );
+  }
+
+  private contentsUrl(filePath: string, ref?: string): string {
+    const { owner, repo, defaultRef } = this.options;
+    return `/repos/${owner}/${repo}/contents/${filePath}?ref=${encodeURIComponent(ref || defaultRef)}`;
+  }
+
+  async readFile(filePath: string, ref?: string): Promise<string | null> {
+    // Skip the request for files a loaded index knows don't exist; raw reads
+    // don't count against the API rate limit, so never fetch an index for
+    // them. Expired indexes aren't returned, so a branch's files are
+    // downloaded again once its index is older than the branch TTL
+    const index = await this.getIndex(filePath, ref, false).catch(() => null);
+    const stats = index?.stat(filePath);
+    if (index && !stats) {
+      return null;
+    }
+
+    const { blobStore } = this.options;
+    if (stats?.sha && blobStore) {
+      const stored = await blobStore.getBlob(stats.sha).catch(() => null);
+      if (stored !== null) {
+        return stored;
+      }
+    }
+
+    const response = await this.options.raw.get(this.rawPath(filePath, ref));
+
+    if (response.status === 404) {
+      return null;
+    }
+    assertOk(response.status, response.data, filePath);
+
+    // Store by the SHA of what was downloaded, which is also right when the
+    // ref moved after the index was loaded
+    if (typeof response.data === "string") {
+      const sha = gitBlobSha(Buffer.from(response.data));
+      if (stats?.sha && stats.sha !== sha) {
+        // The ref moved since the index was loaded; load it again when next needed
+        this.dropIndex(filePath, ref);
+      }
+      if (blobStore) {
+        await blobStore.setBlob(sha, response.data).catch(() => undefined);
+      }
+    }
+    return response.data;
+  }
+
+  async listDir(dirPath: string, ref?: string): Promise<DirEntry[] | null> {
+    const index = await this.getIndex(dirPath, ref);
+    if (index) {
+      return index.list(dirPath);
+    }
+
+    const response = await this.options.api.get(this.contentsUrl(dirPath, ref));
+
+    if (response.status === 404) {
+      return null;
+    }
+    assertOk(response.status, response.data, dirPath);
+
+    if (!Array.isArray(response.data)) {
+      return null;
+    }
+
+    return response.data
+      .filter((item: any) => item.type === "file" || item.type === "dir")
+      .map((item: any) => ({
+        name: item.name,
+        path: item.path,
+        type: item.type,
+        size: item.type === "file" ? item.size : undefined,
+        sha: item.sha,
+        url: item.download_url || undefined,
+      }));
+  }
+
+  async stat(filePath: string, ref?: string): Promise<SourceStat | null> {
+    const index = await this.getIndex(filePath, ref);
+    if (index) {
+      return index.stat(filePath);
+    }
+
+    const response = await this.options.api.get(
+      this.contentsUrl(filePath, ref),
+    );
+
+    if (response.status === 404) {
+      return null;
+    }
+    assertOk(response.status, response.data, filePath);
+
+    if (Array.isArray(response.data)) {
+      return { path: filePath, type: "dir" };
+    }
+
+    return {
+      path: filePath,
+      type: "file",
+      size: response.data.size,
+      sha: response.data.sha,
+    };
+  }
+
+  async resolveRef(ref?: string): Promise<string | null> {
+    const { owner, repo, defaultRef } = this.options;
+    const response = await this.options.api.get(
+      `/repos/${owner}/${repo}/commits/${encodeURIComponent(ref || defaultRef)}`,
+    );
+
+    if (response.status === 404 || response.status === 422) {
+      return null;
+    }
+    assertOk(response.status, response.data, ref || defaultRef);
+    return response.data?.sha ?? null;
+  }
+}
+
+/**
+ * Throw a descriptive error for non-successful GitHub responses
+ */
+function assertOk(status: number, data: any, target: string): void {
+  if (status >= 200 && status < 300) {
+    return;
+  }
+
+  const message =
+    typeof data === "object" && data?.message ? data.message : String(data);
+
+  if (status === 403 || status === 429) {
+    if (message.toLowerCase().includes("rate limit")) {
+      throw new Error(
+        `GitHub API rate limit exceeded: ${message} Consider setting GITHUB_PERSONAL_ACCESS_TOKEN or GITHUB_TOKEN environment variable for higher rate limits.`,
+      );
+    }
+    throw new Error(`Access forbidden for ${target}: ${message}`);
+  }
+  if (status === 401) {
+    throw new Error(
+      `Authentication failed. Please check your GITHUB_PERSONAL_ACCESS_TOKEN or GITHUB_TOKEN if provided.`,
+    );
+  }
+  throw new Error(`GitHub API error (${status}) for ${target}: ${message}`);
+}
+
+/**
+ * Tries a list of content sources in order and returns the first hit
+ */
+export class ContentSourceChain {
+  private sources: ContentSource[];
+
+  constructor(sources: ContentSource[] = []) {
+    this.sources = sources;
+  }
+
+  /**
+   * Replace the configured sources; they are tried in the given order
+   */
+  setSources(sources: ContentSource[]): void {
+    this.sources = [...sources];
+  }
+
+  getSources(): ContentSource[] {
+    return [...this.sources];
+  }
+
+  /**
+   * Describe the configured sources for error messages
+   * (e.g. "local repository or Grafana UI repository")
+   */
+  describe(): string {
+    return this.sources.map((source) => source.description).join(" or ");
+  }
+
+  async readFile(filePath: string, ref?: string): Promise<SourceFile | null> {
+    return this.first(async (source) => {
+      const content = await source.readFile(filePath, ref);
+      return content === null
+        ? null
+        : { path: filePath, content, source: source.name };
+    });
+  }
+
+  async listDir(dirPath: string, ref?: string): Promise<SourceListing | null> {
+    return this.first(async (source) => {
+      const entries = await source.listDir(dirPath, ref);
+      return entries === null
+        ? null
+        : { path: dirPath, entries, source: source.name };
+    });
+  }
+
+  async stat(
+    filePath: string,
+    ref?: string,
+  ): Promise<(SourceStat & { source: string }) | null> {
+    return this.first(async (source) => {
+      const stats = await source.stat(filePath, ref);
+      return stats === null ? null : { ...stats, source: source.name };
+    });
+  }
+
+  async resolveRef(
+    ref?: string,
+  ): Promise<{ sha: string; source: string } | null> {
+    return this.first(async (source) => {
+      const sha = await source.resolveRef(ref);
+      return sha === null ? null : { sha, source: source.name };
+    });
+  }
+
+  /**
+   * Run an operation against each source until one returns a value.
+   * Errors from individual sources are remembered and only rethrown
+   * when no source could serve the request.
+   */
+  private async first<T>(
+    operation: (source: ContentSource) => Promise<T | null>,
+  ): Promise<T | null> {
+    let firstError: unknown = null;
+
+    for (const source of this.sources) {
+      try {
+        const result = await operation(source);
+        if (result !== null) {
+          return result;
+        }
+      } catch (error) {
+        firstError = firstError ?? error;
+      }
+    }
+
+    if (firstError) {
+      throw firstError;
+    }
+    return null;
+  }
+}
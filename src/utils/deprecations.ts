@@ -0,0 +1,183 @@
+/**
+ * Deprecation scanning using the TypeScript compiler API
+ * Finds the declarations of a file marked with a JSDoc @deprecated tag:
+ * top-level components, functions, types and constants, the members of
+ * interfaces and object types (props), and the members of classes, enums and
+ * exported object literals (`Forms.Field`).
+ */
+
+import ts from "typescript";
+import { deprecationReplacement } from "./export-map.js";
+
+export interface Deprecation {
+  /** Text of the @deprecated tag */
+  message: string;
+  /** Suggested replacement named in the message, if any */
+  replacement: string | null;
+}
+
+export interface DeprecatedSymbol extends Deprecation {
+  /** Symbol name; members are qualified with their owner (e.g. "ButtonProps.size", "Forms.Field") */
+  name: string;
+  kind:
+    | "component"
+    | "function"
+    | "class"
+    | "const"
+    | "interface"
+    | "type"
+    | "enum"
+    | "prop"
+    | "member";
+  /** Repository path of the declaring file */
+  file: string;
+  /** Line of the declaration, 1-based */
+  line: number;
+}
+
+/**
+ * Read the @deprecated tag of a declaration's JSDoc
+ * @param node Declaration
+ * @returns The message and suggested replacement, or null when not deprecated
+ */
+export function deprecationOf(node: ts.Node): Deprecation | null {
+  const tag = ts.getJSDocDeprecatedTag(node);
+  if (!tag) {
+    return null;
+  }
+  const message = (ts.getTextOfJSDocComment(tag.comment) ?? "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return { message, replacement: deprecationReplacement(message) };
+}
+
+/**
+ * Find the deprecated declarations of a file
+ * @param code TypeScript source code
+ * @param filePath Repository path of the file; its extension picks the parser
+ * @returns Deprecated symbols in source order
+ */
+export function findDeprecations(
+  code: string,
+  filePath: string,
+): DeprecatedSymbol[] {
+  // Most files have none; skip parsing them
+  if (!code.includes("@deprecated")) {
+    return [];
+  }
+
+  const sourceFile = ts.createSourceFile(
+    filePath,
+    code,
+    ts.ScriptTarget.Latest,
+    true,
+    filePath.endsWith(".tsx") ? ts.ScriptKind.TSX : ts.ScriptKind.TS,
+  );
+  const found: DeprecatedSymbol[] = [];
+  const record = (
+    node: ts.Node,
+    name: string,
+    kind: DeprecatedSymbol["kind"],
+  ) => {
+    const deprecation = deprecationOf(node);
+    if (deprecation) {
+      const position = ts.getNameOfDeclaration(node as ts.Declaration) ?? node;
+      found.push({
+        name,
+        kind,
+        file: filePath,
+        line:
+          sourceFile.getLineAndCharacterOfPosition(
+            position.getStart(sourceFile),
+          ).line + 1,
+        ...deprecation,
+      });
+    }
+  };
+  const recordMembers = (
+    members: readonly ts.Node[],
+    owner: string,
+    kind: DeprecatedSymbol["kind"],
+  ) => {
+    for (const member of members) {
+      const name = ts.getNameOfDeclaration(member as ts.Declaration);
+      if (name && (ts.isIdentifier(name) || ts.isStringLiteral(name))) {
+        record(member, `${owner}.${name.text}`, kind);
+      }
+    }
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isInterfaceDeclaration(statement)) {
+      record(statement, statement.name.text, "interface");
+      recordMembers(statement.members, statement.name.text, "prop");
+    } else if (ts.isTypeAliasDeclaration(statement)) {
+      record(statement, statement.name.text, "type");
+      for (const literal of typeLiterals(statement.type)) {
+        recordMembers(literal.members, statement.name.text, "prop");
+      }
+    } else if (ts.isEnumDeclaration(statement)) {
+      record(statement, statement.name.text, "enum");
+      recordMembers(statement.members, statement.name.text, "member");
+    } else if (ts.isClassDeclaration(statement) && statement.name) {
+      record(
+        statement,
+        statement.name.text,
+        valueKind(statement.name.text, filePath, "class"),
+      );
+      recordMembers(statement.members, statement.name.text, "member");
+    } else if (ts.isFunctionDeclaration(statement) && statement.name) {
+      record(
+        statement,
+        statement.name.text,
+        valueKind(statement.name.text, filePath, "function"),
+      );
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name)) {
+          continue;
+        }
+        const name = declaration.name.text;
+        if (
+          declaration.initializer &&
+          ts.isObjectLiteralExpression(declaration.initializer)
+        ) {
+          record(declaration, name, "const");
+          recordMembers(declaration.initializer.properties, name, "member");
+        } else {
+          record(declaration, name, valueKind(name, filePath, "const"));
+        }
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Object type literals making up a type alias (`{ ... }`, `A & { ... }`,
+ * `{ ... } | { ... }`)
+ */
+function typeLiterals(type: ts.TypeNode): ts.TypeLiteralNode[] {
+  if (ts.isTypeLiteralNode(type)) {
+    return [type];
+  }
+  if (ts.isParenthesizedTypeNode(type)) {
+    return typeLiterals(type.type);
+  }
+  if (ts.isIntersectionTypeNode(type) || ts.isUnionTypeNode(type)) {
+    return type.types.flatMap(typeLiterals);
+  }
+  return [];
+}
+
+/**
+ * Kind of a value declaration: PascalCase values declared in .tsx files are
+ * taken to be components
+ */
+function valueKind(
+  name: string,
+  filePath: string,
+  kind: DeprecatedSymbol["kind"],
+): DeprecatedSymbol["kind"] {
+  return /^[A-Z]/.test(name) && filePath.endsWith(".tsx") ? "component" : kind;
+}
@@ -0,0 +1,173 @@
+/**
+ * Line-based diff utilities
+ * Produces unified diffs (as used by git and patch) using the Myers algorithm
+ */
+
+export interface DiffOperation {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+/**
+ * Split text into lines, ignoring the empty line after a trailing newline
+ * @param text Text to split
+ * @returns Array of lines
+ */
+function splitLines(text: string): string[] {
+  if (!text) {
+    return [];
+  }
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Compute the shortest edit script between two lists of lines
+ * @param a Original lines
+ * @param b Updated lines
+ * @returns Ordered list of equal/insert/delete operations
+ */
+export function diffLines(a: string[], b: string[]): DiffOperation[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds the furthest x for each diagonal k in [-d, d] before step d
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const operations: DiffOperation[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      operations.push({ type: "equal", text: a[x - 1] });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        operations.push({ type: "insert", text: b[y - 1] });
+        y--;
+      } else {
+        operations.push({ type: "delete", text: a[x - 1] });
+        x--;
+      }
+    }
+  }
+
+  return operations.reverse();
+}
+
+/**
+ * Create a unified diff between two texts
+ * @param oldText Original text
+ * @param newText Updated text
+ * @param oldLabel Label for the "---" header (e.g. "a/path/to/file")
+ * @param newLabel Label for the "+++" header (e.g. "b/path/to/file")
+ * @param context Number of unchanged context lines around each change
+ * @returns Unified diff, or an empty string when the texts are identical
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  context = 3,
+): string {
+  const operations = diffLines(splitLines(oldText), splitLines(newText));
+  const changes = operations
+    .map((operation, index) => (operation.type === "equal" ? -1 : index))
+    .filter((index) => index !== -1);
+
+  if (changes.length === 0) {
+    return "";
+  }
+
+  // Group changes that are close together into hunks of [start, end)
+  const ranges: Array<[number, number]> = [];
+  for (const index of changes) {
+    const start = Math.max(0, index - context);
+    const end = Math.min(operations.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+
+    if (last && start <= last[1]) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+
+  // Line numbers (0-based count of consumed lines) before each operation
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const operation of operations) {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (operation.type !== "insert") oldLine++;
+    if (operation.type !== "delete") newLine++;
+  }
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  for (const [start, end] of ranges) {
+    const hunk = operations.slice(start, end);
+    const oldCount = hunk.filter((op) => op.type !== "insert").length;
+    const newCount = hunk.filter((op) => op.type !== "delete").length;
+    const oldStart = oldCount === 0 ? oldLineAt[start] : oldLineAt[start] + 1;
+    const newStart = newCount === 0 ? newLineAt[start] : newLineAt[start] + 1;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const operation of hunk) {
+      const prefix =
+        operation.type === "insert"
+          ? "+"
+          : operation.type === "delete"
+            ? "-"
+            : " ";
+      output.push(`${prefix}${operation.text}`);
+    }
+  }
+
+  return output.join("\n") + "\n";
+}
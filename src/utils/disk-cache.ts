@@ -0,0 +1,357 @@
+/**
+ * Disk tier of the response cache, shared across server restarts
+ * Entries are JSON files named by the hash of their key and carry their own
+ * TTL metadata; file contents fetched from GitHub are also stored by git blob
+ * SHA, so a file unchanged between refs is downloaded once. Every write goes
+ * to a temporary file that is renamed into place, and blobs never change once
+ * written, so several server processes can share one directory without
+ * locking. The directory is kept under a size cap by dropping the least
+ * recently used files.
+ */
+
+import { createHash } from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+export interface DiskCacheOptions {
+  /** Cache directory (default: see defaultCacheDir) */
+  dir?: string;
+  /** Size cap for the directory in bytes */
+  maxBytes?: number;
+}
+
+/**
+ * A value read from disk with the metadata it was stored with
+ */
+export interface DiskCacheItem<T> {
+  value: T;
+  timestamp: number;
+  ttl: number;
+}
+
+export interface DiskCacheStats {
+  dir: string;
+  maxBytes: number;
+  entries: number;
+  blobs: number;
+  bytes: number;
+  /** Age of the least recently used file in milliseconds, or null when empty */
+  oldestEntryAge: number | null;
+}
+
+interface StoredEntry<T> extends DiskCacheItem<T> {
+  version: number;
+  key: string;
+}
+
+// Bump when the entry format or the shape of a cached value changes; older
+// entries are then ignored
+const ENTRY_FORMAT_VERSION = 2;
+export const DEFAULT_DISK_CACHE_MAX_BYTES = 256 * 1024 * 1024;
+
+/**
+ * Default cache directory: $XDG_CACHE_HOME/grafana-ui-mcp-server, falling
+ * back to ~/.cache (or %LOCALAPPDATA% on Windows)
+ */
+export function defaultCacheDir(): string {
+  const base =
+    process.env.XDG_CACHE_HOME ||
+    (process.platform === "win32" && process.env.LOCALAPPDATA) ||
+    path.join(os.homedir(), ".cache");
+  return path.join(base, "grafana-ui-mcp-server");
+}
+
+export class DiskCache {
+  readonly dir: string;
+  readonly maxBytes: number;
+  private bytesSincePrune = 0;
+  private pruning: Promise<number> | null = null;
+
+  constructor(options: DiskCacheOptions = {}) {
+    this.dir = path.resolve(options.dir || defaultCacheDir());
+    this.maxBytes = options.maxBytes ?? DEFAULT_DISK_CACHE_MAX_BYTES;
+  }
+
+  private entryPath(key: string): string {
+    const hash = createHash("sha256").update(key).digest("hex");
+    return path.join(this.dir, "entries", hash.slice(0, 2), `${hash}.json`);
+  }
+
+  private blobPath(sha: string): string {
+    return path.join(this.dir, "blobs", sha.slice(0, 2), sha);
+  }
+
+  /**
+   * Read an entry
+   * @param key Cache key
+   * @returns The stored value and its metadata, or null if missing or expired
+   */
+  async get<T>(key: string): Promise<DiskCacheItem<T> | null> {
+    const filePath = this.entryPath(key);
+    let entry: StoredEntry<T>;
+    try {
+      entry = JSON.parse(await fs.promises.readFile(filePath, "utf8"));
+    } catch (error) {
+      // Missing, or being replaced by another process
+      return null;
+    }
+
+    if (entry.version !== ENTRY_FORMAT_VERSION || entry.key !== key) {
+      return null;
+    }
+    if (entry.ttl > 0 && Date.now() - entry.timestamp > entry.ttl) {
+      await removeFile(filePath);
+      return null;
+    }
+
+    await touch(filePath);
+    return { value: entry.value, timestamp: entry.timestamp, ttl: entry.ttl };
+  }
+
+  /**
+   * Store an entry
+   * @param key Cache key
+   * @param value JSON-serializable value
+   * @param ttl TTL in milliseconds (0 never expires)
+   * @param timestamp When the value was fetched (default: now)
+   */
+  async set<T>(
+    key: string,
+    value: T,
+    ttl: number,
+    timestamp = Date.now(),
+  ): Promise<void> {
+    const entry: StoredEntry<T> = {
+      version: ENTRY_FORMAT_VERSION,
+      key,
+      timestamp,
+      ttl,
+      value,
+    };
+    await this.write(this.entryPath(key), JSON.stringify(entry));
+  }
+
+  /**
+   * Delete an entry
+   * @param key Cache key
+   */
+  async delete(key: string): Promise<void> {
+    await removeFile(this.entryPath(key));
+  }
+
+  /**
+   * Read file content by git blob SHA
+   * @param sha Git blob SHA
+   * @returns The content, or null when the blob isn't stored
+   */
+  async getBlob(sha: string): Promise<string | null> {
+    const filePath = this.blobPath(sha);
+    try {
+      const content = await fs.promises.readFile(filePath, "utf8");
+      await touch(filePath);
+      return content;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Store file content by git blob SHA
+   * Blobs are immutable, so an existing one is left as is
+   * @param sha Git blob SHA of the content
+   * @param content File content
+   */
+  async setBlob(sha: string, content: string): Promise<void> {
+    const filePath = this.blobPath(sha);
+    if (await exists(filePath)) {
+      await touch(filePath);
+      return;
+    }
+    await this.write(filePath, content);
+  }
+
+  /**
+   * Delete the entries whose key starts with a prefix
+   * Blobs aren't keyed and are left to the size cap
+   * @param prefix Key prefix to match
+   * @returns Number of entries deleted
+   */
+  async deleteByPrefix(prefix: string): Promise<number> {
+    let deleted = 0;
+    for (const file of await listFiles(path.join(this.dir, "entries"))) {
+      try {
+        const entry = JSON.parse(await fs.promises.readFile(file.path, "utf8"));
+        if (typeof entry.key === "string" && entry.key.startsWith(prefix)) {
+          await removeFile(file.path);
+          deleted++;
+        }
+      } catch (error) {
+        // Deleted or being replaced by another process
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * Delete every entry and blob
+   * @returns Number of files deleted
+   */
+  async clear(): Promise<number> {
+    const files = await listFiles(this.dir);
+    await Promise.all(
+      ["entries", "blobs"].map((name) =>
+        fs.promises.rm(path.join(this.dir, name), {
+          recursive: true,
+          force: true,
+        }),
+      ),
+    );
+    return files.length;
+  }
+
+  /**
+   * Get the number and size of the stored files
+   * @returns Disk cache statistics
+   */
+  async getStats(): Promise<DiskCacheStats> {
+    const [entries, blobs] = await Promise.all([
+      listFiles(path.join(this.dir, "entries")),
+      listFiles(path.join(this.dir, "blobs")),
+    ]);
+    const files = [...entries, ...blobs];
+    const oldest = files.reduce(
+      (min, file) => Math.min(min, file.mtimeMs),
+      Date.now(),
+    );
+    return {
+      dir: this.dir,
+      maxBytes: this.maxBytes,
+      entries: entries.length,
+      blobs: blobs.length,
+      bytes: files.reduce((sum, file) => sum + file.size, 0),
+      oldestEntryAge: files.length > 0 ? Date.now() - oldest : null,
+    };
+  }
+
+  /**
+   * Drop the least recently used files until the directory is under its
+   * size cap; expired entries are dropped when they are next read
+   * @returns Number of files deleted
+   */
+  async prune(): Promise<number> {
+    if (!this.pruning) {
+      this.pruning = this.pruneFiles().finally(() => {
+        this.pruning = null;
+      });
+    }
+    return this.pruning;
+  }
+
+  private async pruneFiles(): Promise<number> {
+    this.bytesSincePrune = 0;
+    const files = await listFiles(this.dir);
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+    if (total <= this.maxBytes) {
+      return 0;
+    }
+
+    // Least recently used first; reads touch the files they hit
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    let deleted = 0;
+    for (const file of files) {
+      if (total <= this.maxBytes) {
+        break;
+      }
+      await removeFile(file.path);
+      total -= file.size;
+      deleted++;
+    }
+    return deleted;
+  }
+
+  /**
+   * Write a file atomically: other processes see either the old content or
+   * the new one, never a partial write
+   */
+  private async write(filePath: string, content: string): Promise<void> {
+    const temporaryPath = `${filePath}.${process.pid}.${Math.random()
+      .toString(36)
+      .slice(2)}.tmp`;
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    try {
+      await fs.promises.writeFile(temporaryPath, content, "utf8");
+      await fs.promises.rename(temporaryPath, filePath);
+    } catch (error) {
+      await removeFile(temporaryPath);
+      throw error;
+    }
+
+    // Check the size cap once enough has been written since the last check
+    this.bytesSincePrune += Buffer.byteLength(content);
+    if (this.bytesSincePrune > this.maxBytes / 16) {
+      this.prune().catch((error) =>
+        console.error("Failed to prune the disk cache:", error),
+      );
+    }
+  }
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.promises.access(filePath);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Mark a file as recently used
+ */
+async function touch(filePath: string): Promise<void> {
+  const now = new Date();
+  await fs.promises.utimes(filePath, now, now).catch(() => undefined);
+}
+
+/**
+ * Delete a file that another process may already have deleted
+ */
+async function removeFile(filePath: string): Promise<void> {
+  await fs.promises.rm(filePath, { force: true }).catch(() => undefined);
+}
+
+/**
+ * List the files under a directory with their sizes and modification times
+ * Temporary files of writes in progress are skipped
+ */
+async function listFiles(
+  dir: string,
+): Promise<Array<{ path: string; size: number; mtimeMs: number }>> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch (error) {
+    return [];
+  }
+
+  const files: Array<{ path: string; size: number; mtimeMs: number }> = [];
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(entryPath)));
+    } else if (entry.isFile() && !entry.name.endsWith(".tmp")) {
+      try {
+        const stats = await fs.promises.stat(entryPath);
+        files.push({
+          path: entryPath,
+          size: stats.size,
+          mtimeMs: stats.mtimeMs,
+        });
+      } catch (error) {
+        // Deleted by another process in the meantime
+      }
+    }
+  }
+  return files;
+}
@@ -0,0 +1,364 @@
+/**
+ * Attribute names of React's DOM prop types (@types/react)
+ * Props types often pass DOM attributes through (`extends
+ * React.HTMLAttributes<HTMLDivElement>`), and React's declarations aren't part
+ * of the repository, so the names are listed here. Capture-phase event
+ * handlers (onClickCapture, ...) are left out.
+ */
+
+const ARIA_ATTRIBUTES = [
+  "aria-activedescendant",
+  "aria-atomic",
+  "aria-autocomplete",
+  "aria-busy",
+  "aria-checked",
+  "aria-colcount",
+  "aria-colindex",
+  "aria-colspan",
+  "aria-controls",
+  "aria-current",
+  "aria-describedby",
+  "aria-details",
+  "aria-disabled",
+  "aria-errormessage",
+  "aria-expanded",
+  "aria-flowto",
+  "aria-haspopup",
+  "aria-hidden",
+  "aria-invalid",
+  "aria-keyshortcuts",
+  "aria-label",
+  "aria-labelledby",
+  "aria-level",
+  "aria-live",
+  "aria-modal",
+  "aria-multiline",
+  "aria-multiselectable",
+  "aria-orientation",
+  "aria-owns",
+  "aria-placeholder",
+  "aria-posinset",
+  "aria-pressed",
+  "aria-readonly",
+  "aria-relevant",
+  "aria-required",
+  "aria-roledescription",
+  "aria-rowcount",
+  "aria-rowindex",
+  "aria-rowspan",
+  "aria-selected",
+  "aria-setsize",
+  "aria-sort",
+  "aria-valuemax",
+  "aria-valuemin",
+  "aria-valuenow",
+  "aria-valuetext",
+];
+
+const DOM_ATTRIBUTES = [
+  "children",
+  "dangerouslySetInnerHTML",
+  "onCopy",
+  "onCut",
+  "onPaste",
+  "onCompositionEnd",
+  "onCompositionStart",
+  "onCompositionUpdate",
+  "onFocus",
+  "onBlur",
+  "onChange",
+  "onBeforeInput",
+  "onInput",
+  "onReset",
+  "onSubmit",
+  "onInvalid",
+  "onLoad",
+  "onError",
+  "onKeyDown",
+  "onKeyPress",
+  "onKeyUp",
+  "onAbort",
+  "onCanPlay",
+  "onCanPlayThrough",
+  "onDurationChange",
+  "onEmptied",
+  "onEncrypted",
+  "onEnded",
+  "onLoadedData",
+  "onLoadedMetadata",
+  "onLoadStart",
+  "onPause",
+  "onPlay",
+  "onPlaying",
+  "onProgress",
+  "onRateChange",
+  "onSeeked",
+  "onSeeking",
+  "onStalled",
+  "onSuspend",
+  "onTimeUpdate",
+  "onVolumeChange",
+  "onWaiting",
+  "onAuxClick",
+  "onClick",
+  "onContextMenu",
+  "onDoubleClick",
+  "onDrag",
+  "onDragEnd",
+  "onDragEnter",
+  "onDragExit",
+  "onDragLeave",
+  "onDragOver",
+  "onDragStart",
+  "onDrop",
+  "onMouseDown",
+  "onMouseEnter",
+  "onMouseLeave",
+  "onMouseMove",
+  "onMouseOut",
+  "onMouseOver",
+  "onMouseUp",
+  "onSelect",
+  "onTouchCancel",
+  "onTouchEnd",
+  "onTouchMove",
+  "onTouchStart",
+  "onPointerDown",
+  "onPointerMove",
+  "onPointerUp",
+  "onPointerCancel",
+  "onPointerEnter",
+  "onPointerLeave",
+  "onPointerOver",
+  "onPointerOut",
+  "onGotPointerCapture",
+  "onLostPointerCapture",
+  "onScroll",
+  "onWheel",
+  "onAnimationStart",
+  "onAnimationEnd",
+  "onAnimationIteration",
+  "onTransitionEnd",
+];
+
+const HTML_ATTRIBUTES = [
+  "defaultChecked",
+  "defaultValue",
+  "suppressContentEditableWarning",
+  "suppressHydrationWarning",
+  "accessKey",
+  "autoFocus",
+  "className",
+  "contentEditable",
+  "contextMenu",
+  "dir",
+  "draggable",
+  "hidden",
+  "id",
+  "lang",
+  "nonce",
+  "slot",
+  "spellCheck",
+  "style",
+  "tabIndex",
+  "title",
+  "translate",
+  "radioGroup",
+  "role",
+  "about",
+  "content",
+  "datatype",
+  "inlist",
+  "prefix",
+  "property",
+  "rel",
+  "resource",
+  "rev",
+  "typeof",
+  "vocab",
+  "autoCapitalize",
+  "autoCorrect",
+  "autoSave",
+  "color",
+  "itemProp",
+  "itemScope",
+  "itemType",
+  "itemID",
+  "itemRef",
+  "results",
+  "security",
+  "unselectable",
+  "inputMode",
+  "is",
+];
+
+// Element-specific interfaces, which all extend HTMLAttributes
+const ELEMENT_ATTRIBUTES: Record<string, string[]> = {
+  AnchorHTMLAttributes: [
+    "download",
+    "href",
+    "hrefLang",
+    "media",
+    "ping",
+    "target",
+    "type",
+    "referrerPolicy",
+  ],
+  ButtonHTMLAttributes: [
+    "disabled",
+    "form",
+    "formAction",
+    "formEncType",
+    "formMethod",
+    "formNoValidate",
+    "formTarget",
+    "name",
+    "type",
+    "value",
+  ],
+  FormHTMLAttributes: [
+    "acceptCharset",
+    "action",
+    "autoComplete",
+    "encType",
+    "method",
+    "name",
+    "noValidate",
+    "target",
+  ],
+  ImgHTMLAttributes: [
+    "alt",
+    "crossOrigin",
+    "decoding",
+    "height",
+    "loading",
+    "referrerPolicy",
+    "sizes",
+    "src",
+    "srcSet",
+    "useMap",
+    "width",
+  ],
+  InputHTMLAttributes: [
+    "accept",
+    "alt",
+    "autoComplete",
+    "capture",
+    "checked",
+    "disabled",
+    "enterKeyHint",
+    "form",
+    "formAction",
+    "formEncType",
+    "formMethod",
+    "formNoValidate",
+    "formTarget",
+    "height",
+    "list",
+    "max",
+    "maxLength",
+    "min",
+    "minLength",
+    "multiple",
+    "name",
+    "pattern",
+    "placeholder",
+    "readOnly",
+    "required",
+    "size",
+    "src",
+    "step",
+    "type",
+    "value",
+    "width",
+  ],
+  LabelHTMLAttributes: ["form", "htmlFor"],
+  SelectHTMLAttributes: [
+    "autoComplete",
+    "disabled",
+    "form",
+    "multiple",
+    "name",
+    "required",
+    "size",
+    "value",
+  ],
+  TextareaHTMLAttributes: [
+    "autoComplete",
+    "cols",
+    "dirName",
+    "disabled",
+    "form",
+    "maxLength",
+    "minLength",
+    "name",
+    "placeholder",
+    "readOnly",
+    "required",
+    "rows",
+    "value",
+    "wrap",
+  ],
+};
+
+// Intrinsic elements, for ComponentProps<'button'> and the like
+const ELEMENT_INTERFACES: Record<string, string> = {
+  a: "AnchorHTMLAttributes",
+  button: "ButtonHTMLAttributes",
+  form: "FormHTMLAttributes",
+  img: "ImgHTMLAttributes",
+  input: "InputHTMLAttributes",
+  label: "LabelHTMLAttributes",
+  select: "SelectHTMLAttributes",
+  textarea: "TextareaHTMLAttributes",
+};
+
+// Types taking an intrinsic element name as their type argument
+const ELEMENT_PROPS_TYPES = new Set([
+  "ComponentProps",
+  "ComponentPropsWithoutRef",
+  "ComponentPropsWithRef",
+]);
+
+/**
+ * List the attributes of a React DOM prop type
+ * @param typeName Type name without the React. qualifier (e.g. "HTMLAttributes")
+ * @param element Element name given as a string literal type argument, for
+ * ComponentProps<'button'> and the like
+ * @returns Attribute names, or null when the type isn't a DOM prop type
+ */
+export function domAttributeNames(
+  typeName: string,
+  element?: string,
+): string[] | null {
+  const common = [...HTML_ATTRIBUTES, ...ARIA_ATTRIBUTES, ...DOM_ATTRIBUTES];
+
+  if (ELEMENT_PROPS_TYPES.has(typeName)) {
+    if (element === undefined) {
+      return null;
+    }
+    const elementInterface = ELEMENT_INTERFACES[element];
+    return elementInterface
+      ? unique([...ELEMENT_ATTRIBUTES[elementInterface], ...common])
+      : common;
+  }
+
+  switch (typeName) {
+    case "AriaAttributes":
+      return [...ARIA_ATTRIBUTES];
+    case "DOMAttributes":
+      return [...DOM_ATTRIBUTES];
+    case "HTMLAttributes":
+      return common;
+    case "AllHTMLAttributes":
+    case "HTMLProps":
+      return unique([...Object.values(ELEMENT_ATTRIBUTES).flat(), ...common]);
+  }
+
+  const attributes = ELEMENT_ATTRIBUTES[typeName];
+  return attributes ? unique([...attributes, ...common]) : null;
+}
+
+function unique(names: string[]): string[] {
+  return [...new Set(names)];
+}
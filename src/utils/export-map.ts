@@ -0,0 +1,455 @@
+/**
+ * Export maps built from TypeScript barrel files
+ * Follows `export * from`, `export { a as b } from` and local re-exports of
+ * imports from a package's entry points down to the files that declare each
+ * symbol, reading files through a content source.
+ */
+
+import { DirEntry } from "./content-source.js";
+
+export interface ExportTarget {
+  /** Public export name */
+  exportName: string;
+  /** Repository path of the file declaring the symbol */
+  file: string;
+  /** Name the symbol is declared under in that file */
+  localName: string;
+  /** Declaration kind (interface, type, enum, const, function, class, namespace, ...) */
+  kind: string;
+  /** Text of the declaration's JSDoc @deprecated tag ("" when it has none), or null */
+  deprecated: string | null;
+}
+
+export interface ExportMapReader {
+  readFile(filePath: string): Promise<string | null>;
+  listDir(dirPath: string): Promise<DirEntry[] | null>;
+}
+
+// Extensions tried, in order, when resolving a relative module specifier
+const MODULE_EXTENSIONS = [".ts", ".tsx", ".d.ts"];
+
+const DECLARATION_REGEX =
+  /^export\s+(?:declare\s+)?(?:default\s+)?(?:abstract\s+)?(?:async\s+)?(const|let|var|function\*?|class|interface|type|enum|namespace)\s+([A-Za-z_$][\w$]*)/gm;
+const EXPORT_FROM_REGEX =
+  /^export\s+(?:type\s+)?(\*(?:\s+as\s+([\w$]+))?|\{([^}]*)\})\s*from\s*['"]([^'"]+)['"]/gm;
+const LOCAL_EXPORT_REGEX = /^export\s+(?:type\s+)?\{([^}]*)\}\s*;?\s*$/gm;
+const IMPORT_REGEX =
+  /^import\s+(?:type\s+)?(?:[\w$]+\s*,\s*)?\{([^}]*)\}\s*from\s*['"]([^'"]+)['"]/gm;
+
+/**
+ * Parse "a, type b, c as d" export/import specifier lists
+ * @returns Pairs of [local name, exported name]
+ */
+function parseSpecifiers(list: string): Array<[string, string]> {
+  return list
+    .split(",")
+    .map((specifier) =>
+      specifier
+        .replace(/\/\/.*$/gm, "")
+        .replace(/\/\*[\s\S]*?\*\//g, "")
+        .trim()
+        .replace(/^type\s+/, ""),
+    )
+    .filter(Boolean)
+    .map((specifier) => {
+      const [local, exported] = specifier.split(/\s+as\s+/);
+      return [local.trim(), (exported || local).trim()];
+    });
+}
+
+/**
+ * Read the @deprecated tag of the JSDoc block that ends right before an offset
+ * @param code Source text
+ * @param index Offset of the declaration
+ * @returns The tag's text ("" when it has none), or null when not deprecated
+ */
+function deprecationBefore(code: string, index: number): string | null {
+  const before = code.slice(0, index).trimEnd();
+  const start = before.lastIndexOf("/**");
+  if (!before.endsWith("*/") || start === -1) {
+    return null;
+  }
+
+  const doc = before
+    .slice(start + 3, -2)
+    .split("\n")
+    .map((line) => line.replace(/^\s*\*\s?/, ""))
+    .join("\n");
+  const match = doc.match(/@deprecated\b([\s\S]*?)(?=\n\s*@\w|$)/);
+  return match ? match[1].replace(/\s+/g, " ").trim() : null;
+}
+
+/**
+ * Find the declaration of a name in a file, exported or not
+ * @returns The declaration kind and its deprecation, or null when the file
+ * doesn't declare the name
+ */
+function findLocalDeclaration(
+  code: string,
+  name: string,
+): { kind: string; deprecated: string | null } | null {
+  const match = new RegExp(
+    `^[ \\t]*(?:export\\s+)?(?:declare\\s+)?(?:default\\s+)?(?:abstract\\s+)?(?:async\\s+)?(const|let|var|function\\*?|class|interface|type|enum)\\s+${name.replace(/\$/g, "\\$")}(?![\\w$])`,
+    "m",
+  ).exec(code);
+  return match
+    ? {
+        kind: match[1].replace("*", ""),
+        deprecated: deprecationBefore(code, match.index),
+      }
+    : null;
+}
+
+/**
+ * Pick the suggested replacement out of a deprecation message
+ * Understands phrasings like "Use Stack instead", "use {@link Combobox}" and
+ * "replaced by `Stack`"; lowercase names (props) count only when quoted, as
+ * in "Use `gap` instead"
+ * @returns The replacement's name, or null when the message doesn't name one
+ */
+export function deprecationReplacement(message: string): string | null {
+  const match =
+    message.match(
+      /(?:\b[Uu]se|[Rr]eplaced (?:by|with)|[Mm]igrate to|[Ss]witch to|in favou?r of)\s+(?:the\s+)?(?:new\s+)?(?:\{@link\s+)?[`'"<]?([A-Z][\w$]*(?:\.[A-Z][\w$]*)?)/,
+    ) ??
+    message.match(
+      /(?:\b[Uu]se|[Rr]eplaced (?:by|with)|[Mm]igrate to|[Ss]witch to|in favou?r of)\s+(?:the\s+)?[`'"]([a-z][\w$]*)[`'"]/,
+    );
+  return match ? match[1] : null;
+}
+
+/**
+ * Describe a re-exported name, keeping what is known about its declaration
+ * @param exportName Name it is re-exported under
+ * @param declaration Export of the target module, if it could be found
+ * @param file Target module, used when the declaration is unknown
+ * @param localName Name in the target module
+ */
+function reexport(
+  exportName: string,
+  declaration: ExportTarget | undefined,
+  file: string,
+  localName: string,
+): ExportTarget {
+  return declaration
+    ? { ...declaration, exportName }
+    : { exportName, file, localName, kind: "unknown", deprecated: null };
+}
+
+/**
+ * Normalize a repository path containing "." and ".." segments
+ */
+function normalizePath(filePath: string): string {
+  const parts: string[] = [];
+  for (const part of filePath.split("/")) {
+    if (part === "..") parts.pop();
+    else if (part && part !== ".") parts.push(part);
+  }
+  return parts.join("/");
+}
+
+/**
+ * Builds export maps for one package at one ref
+ * File reads and directory listings are memoized for the builder's lifetime
+ */
+export class ExportMapBuilder {
+  private readonly fileExports = new Map<
+    string,
+    Promise<Map<string, ExportTarget>>
+  >();
+  private readonly listings = new Map<string, Promise<DirEntry[] | null>>();
+  // Exports found so far in files still being parsed
+  private readonly partialExports = new Map<
+    string,
+    Map<string, ExportTarget>
+  >();
+  // Files each file being parsed is waiting on
+  private readonly waitingOn = new Map<string, Set<string>>();
+
+  constructor(private readonly reader: ExportMapReader) {}
+
+  /**
+   * Build the export map of a set of entry points
+   * Earlier entry points win when two export the same name
+   * @param entryPoints Repository paths of barrel files
+   * @returns Map of public export name to its declaration
+   */
+  async build(entryPoints: string[]): Promise<Map<string, ExportTarget>> {
+    const maps = await Promise.all(
+      entryPoints.map((entryPoint) => this.exportsOf(entryPoint, null)),
+    );
+    const result = new Map<string, ExportTarget>();
+    for (const map of maps) {
+      for (const [name, target] of map) {
+        if (!result.has(name)) {
+          result.set(name, target);
+        }
+      }
+    }
+    return result;
+  }
+
+  private listDir(dirPath: string): Promise<DirEntry[] | null> {
+    let listing = this.listings.get(dirPath);
+    if (!listing) {
+      listing = this.reader.listDir(dirPath).catch(() => null);
+      this.listings.set(dirPath, listing);
+    }
+    return listing;
+  }
+
+  /**
+   * Resolve a relative module specifier to a file in the repository
+   * @returns The file path, or null for bare specifiers and missing modules
+   */
+  async resolveModule(
+    fromFile: string,
+    specifier: string,
+  ): Promise<string | null> {
+    if (!specifier.startsWith(".")) {
+      return null;
+    }
+
+    const fromDir = fromFile.slice(0, fromFile.lastIndexOf("/"));
+    const target = normalizePath(
+      `${fromDir}/${specifier.replace(/\.js$/, "")}`,
+    );
+    const dir = target.slice(0, target.lastIndexOf("/"));
+    const base = target.slice(target.lastIndexOf("/") + 1);
+
+    const entries = (await this.listDir(dir)) || [];
+    for (const extension of MODULE_EXTENSIONS) {
+      const file = entries.find(
+        (entry) =>
+          entry.type === "file" && entry.name === `${base}${extension}`,
+      );
+      if (file) return file.path;
+    }
+
+    if (entries.some((entry) => entry.type === "dir" && entry.name === base)) {
+      const indexEntries = (await this.listDir(target)) || [];
+      const index = indexEntries.find(
+        (entry) => entry.type === "file" && /^index\.tsx?$/.test(entry.name),
+      );
+      if (index) return index.path;
+    }
+
+    return null;
+  }
+
+  /**
+   * Find where a name used in a file is declared, following relative imports
+   * @returns The declaring file and the name used there, or null when the
+   * name is neither declared in the file nor imported from a relative module
+   */
+  async findDeclaration(
+    filePath: string,
+    name: string,
+  ): Promise<{ file: string; localName: string } | null> {
+    const code = await this.reader.readFile(filePath).catch(() => null);
+    if (code === null) {
+      return null;
+    }
+
+    for (const match of code.matchAll(IMPORT_REGEX)) {
+      const specifier = parseSpecifiers(match[1]).find(
+        ([, local]) => local === name,
+      );
+      if (!specifier) continue;
+
+      const target = await this.resolveModule(filePath, match[2]);
+      if (!target) return null;
+      const declaration = (await this.exportsOf(target, null)).get(
+        specifier[0],
+      );
+      return {
+        file: declaration?.file ?? target,
+        localName: declaration?.localName ?? specifier[0],
+      };
+    }
+
+    return findLocalDeclaration(code, name)
+      ? { file: filePath, localName: name }
+      : null;
+  }
+
+  /**
+   * Get the exports of a file, parsing it once per builder
+   * @param filePath Repository path of the module
+   * @param from File whose parse needs the exports, or null outside a parse
+   */
+  private exportsOf(
+    filePath: string,
+    from: string | null,
+  ): Promise<Map<string, ExportTarget>> {
+    let exports = this.fileExports.get(filePath);
+    if (!exports) {
+      exports = this.parseExports(filePath);
+      this.fileExports.set(filePath, exports);
+    }
+    if (from === null) {
+      return exports;
+    }
+
+    // Modules that re-export from each other would wait on each other
+    // forever, so a cycle settles for what the file has exported so far
+    if (filePath === from || this.isWaitingOn(filePath, from)) {
+      return Promise.resolve(this.partialExports.get(filePath) ?? new Map());
+    }
+
+    const waits = this.waitingOn.get(from) ?? new Set<string>();
+    waits.add(filePath);
+    this.waitingOn.set(from, waits);
+    return exports.finally(() => waits.delete(filePath));
+  }
+
+  /**
+   * Whether parsing a file waits, directly or through other files, on another
+   */
+  private isWaitingOn(filePath: string, target: string): boolean {
+    const seen = new Set<string>();
+    const queue = [filePath];
+    while (queue.length > 0) {
+      const file = queue.pop()!;
+      for (const next of this.waitingOn.get(file) ?? []) {
+        if (next === target) return true;
+        if (!seen.has(next)) {
+          seen.add(next);
+          queue.push(next);
+        }
+      }
+    }
+    return false;
+  }
+
+  private async parseExports(
+    filePath: string,
+  ): Promise<Map<string, ExportTarget>> {
+    const result = new Map<string, ExportTarget>();
+    this.partialExports.set(filePath, result);
+    try {
+      return await this.collectExports(filePath, result);
+    } finally {
+      this.partialExports.delete(filePath);
+    }
+  }
+
+  private async collectExports(
+    filePath: string,
+    result: Map<string, ExportTarget>,
+  ): Promise<Map<string, ExportTarget>> {
+    const code = await this.reader.readFile(filePath).catch(() => null);
+    if (code === null) {
+      return result;
+    }
+
+    // Symbols declared in this file
+    for (const match of code.matchAll(DECLARATION_REGEX)) {
+      const kind = match[1].replace("*", "");
+      result.set(match[2], {
+        exportName: match[2],
+        file: filePath,
+        localName: match[2],
+        kind,
+        deprecated: deprecationBefore(code, match.index!),
+      });
+    }
+    const defaultExport = /^export\s+default\b/m.exec(code);
+    if (defaultExport && !result.has("default")) {
+      result.set("default", {
+        exportName: "default",
+        file: filePath,
+        localName: "default",
+        kind: "default",
+        deprecated: deprecationBefore(code, defaultExport.index),
+      });
+    }
+
+    // Imports, so local re-exports (`import { a } from './x'; export { a };`) can be followed
+    const imports = new Map<string, { specifier: string; name: string }>();
+    for (const match of code.matchAll(IMPORT_REGEX)) {
+      for (const [imported, local] of parseSpecifiers(match[1])) {
+        imports.set(local, { specifier: match[2], name: imported });
+      }
+    }
+
+    const pending: Array<Promise<void>> = [];
+    const starExports: Array<Promise<Map<string, ExportTarget>>> = [];
+
+    for (const match of code.matchAll(EXPORT_FROM_REGEX)) {
+      const [, clause, namespace, list, specifier] = match;
+      pending.push(
+        (async () => {
+          const target = await this.resolveModule(filePath, specifier);
+          if (!target) return;
+
+          if (clause.startsWith("*") && namespace) {
+            result.set(namespace, {
+              exportName: namespace,
+              file: target,
+              localName: namespace,
+              kind: "namespace",
+              deprecated: null,
+            });
+          } else if (clause.startsWith("*")) {
+            starExports.push(this.exportsOf(target, filePath));
+          } else {
+            const targetExports = await this.exportsOf(target, filePath);
+            for (const [local, exported] of parseSpecifiers(list)) {
+              result.set(
+                exported,
+                reexport(exported, targetExports.get(local), target, local),
+              );
+            }
+          }
+        })(),
+      );
+    }
+
+    for (const match of code.matchAll(LOCAL_EXPORT_REGEX)) {
+      for (const [local, exported] of parseSpecifiers(match[1])) {
+        const imported = imports.get(local);
+        if (!imported) {
+          const declaration = findLocalDeclaration(code, local);
+          result.set(exported, {
+            exportName: exported,
+            file: filePath,
+            localName: local,
+            kind: declaration?.kind ?? "unknown",
+            deprecated: declaration?.deprecated ?? null,
+          });
+          continue;
+        }
+        pending.push(
+          (async () => {
+            const target = await this.resolveModule(
+              filePath,
+              imported.specifier,
+            );
+            if (!target) return;
+            const declaration = (await this.exportsOf(target, filePath)).get(
+              imported.name,
+            );
+            result.set(
+              exported,
+              reexport(exported, declaration, target, imported.name),
+            );
+          })(),
+        );
+      }
+    }
+
+    await Promise.all(pending);
+
+    // `export *` never overrides explicit exports and skips default exports
+    for (const starMap of await Promise.all(starExports)) {
+      for (const [name, target] of starMap) {
+        if (name !== "default" && !result.has(name)) {
+          result.set(name, target);
+        }
+      }
+    }
+
+    return result;
+  }
+}
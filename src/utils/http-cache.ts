@@ -0,0 +1,160 @@
+/**
+ * Conditional request cache for GitHub fetches
+ * Stores response bodies with their ETag/Last-Modified validators. Fresh
+ * entries are served without a request; expired ones are revalidated with
+ * If-None-Match/If-Modified-Since, and a 304 (which GitHub doesn't count
+ * against the rate limit) reuses the stored body.
+ */
+
+import axios, {
+  Axios,
+  AxiosAdapter,
+  AxiosHeaders,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+
+export interface ConditionalCacheOptions {
+  /** How long a stored response is served without revalidation */
+  ttl?: number;
+  /** Maximum number of stored responses; the oldest are dropped first */
+  maxEntries?: number;
+}
+
+interface StoredResponse {
+  data: any;
+  status: number;
+  statusText: string;
+  headers: Record<string, any>;
+  etag?: string;
+  lastModified?: string;
+  storedAt: number;
+}
+
+export class ConditionalRequestCache {
+  private readonly ttl: number;
+  private readonly maxEntries: number;
+  private readonly entries = new Map<string, StoredResponse>();
+  private stats = { hits: 0, revalidated: 0, misses: 0 };
+
+  constructor(options: ConditionalCacheOptions = {}) {
+    this.ttl = options.ttl ?? 60000;
+    this.maxEntries = options.maxEntries ?? 500;
+  }
+
+  /**
+   * Route the GET requests of an Axios instance through this cache
+   * Attach after the scheduler so fresh hits don't wait in its queue
+   * @param instance Axios instance to wrap
+   */
+  attach(instance: Axios): void {
+    const adapter = axios.getAdapter(
+      instance.defaults.adapter ?? axios.defaults.adapter,
+    );
+    instance.defaults.adapter = ((config: InternalAxiosRequestConfig) =>
+      this.fetch(config, adapter)) as AxiosAdapter;
+  }
+
+  /**
+   * Drop every stored response (e.g. after the credentials change)
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  getStats() {
+    return { ...this.stats, entries: this.entries.size };
+  }
+
+  private async fetch(
+    config: InternalAxiosRequestConfig,
+    adapter: AxiosAdapter,
+  ): Promise<AxiosResponse> {
+    if ((config.method || "get").toLowerCase() !== "get") {
+      return adapter(config);
+    }
+
+    const key = `${config.baseURL || ""}${config.url || ""}`;
+    const stored = this.entries.get(key);
+    // "Cache-Control: no-cache" asks for revalidation even of fresh entries
+    const noCache = /no-cache/i.test(
+      String(config.headers?.get?.("Cache-Control") ?? ""),
+    );
+
+    if (stored && !noCache && Date.now() - stored.storedAt < this.ttl) {
+      this.stats.hits++;
+      return this.toResponse(stored, config, stored.headers, null);
+    }
+
+    if (stored?.etag) {
+      config.headers.set("If-None-Match", stored.etag);
+    } else if (stored?.lastModified) {
+      config.headers.set("If-Modified-Since", stored.lastModified);
+    }
+
+    const response = await adapter(config);
+
+    if (response.status === 304 && stored) {
+      this.stats.revalidated++;
+      stored.storedAt = Date.now();
+      // Keep the entry at the young end of the eviction order
+      this.entries.delete(key);
+      this.entries.set(key, stored);
+      return this.toResponse(
+        stored,
+        config,
+        { ...stored.headers, ...plainHeaders(response.headers) },
+        response.request,
+      );
+    }
+
+    this.stats.misses++;
+    const headers = plainHeaders(response.headers);
+    if (response.status === 200 && (headers.etag || headers["last-modified"])) {
+      this.entries.delete(key);
+      this.entries.set(key, {
+        data: response.data,
+        status: response.status,
+        statusText: response.statusText,
+        headers,
+        etag: headers.etag,
+        lastModified: headers["last-modified"],
+        storedAt: Date.now(),
+      });
+      while (this.entries.size > this.maxEntries) {
+        this.entries.delete(this.entries.keys().next().value as string);
+      }
+    } else if (response.status === 404) {
+      this.entries.delete(key);
+    }
+
+    return response;
+  }
+
+  private toResponse(
+    stored: StoredResponse,
+    config: InternalAxiosRequestConfig,
+    headers: Record<string, any>,
+    request: any,
+  ): AxiosResponse {
+    return {
+      data: stored.data,
+      status: stored.status,
+      statusText: stored.statusText,
+      headers: new AxiosHeaders(headers),
+      config,
+      request,
+    };
+  }
+}
+
+/**
+ * Convert response headers to a plain object with lower-case names
+ */
+function plainHeaders(headers: any): Record<string, any> {
+  const plain =
+    typeof headers?.toJSON === "function" ? headers.toJSON() : headers || {};
+  return Object.fromEntries(
+    Object.entries(plain).map(([name, value]) => [name.toLowerCase(), value]),
+  );
+}
@@ -0,0 +1,214 @@
+/**
+ * Fuzzy matching of component and symbol names
+ * Agents often guess names with the wrong casing ("button"), spelling
+ * ("Datepicker") or from another design system ("Dialog"). Names are ranked
+ * against the known ones by case-insensitive equality, aliases and edit
+ * distance; a clear winner is used directly, anything else becomes a list of
+ * suggestions.
+ */
+
+export type MatchReason =
+  "exact" | "case" | "normalized" | "alias" | "distance" | "partial";
+
+export interface NameSuggestion {
+  name: string;
+  /** 0..1, higher is closer */
+  score: number;
+  reason: MatchReason;
+}
+
+export interface NameResolution {
+  /** The matched name, or null when no candidate is a clear winner */
+  name: string | null;
+  reason: MatchReason | null;
+  /** Ranked candidates, best first */
+  suggestions: NameSuggestion[];
+}
+
+/**
+ * Groups of names that refer to the same kind of component, in Grafana or
+ * in other design systems; a guess in a group matches the others
+ */
+export const COMPONENT_ALIASES: string[][] = [
+  ["Modal", "Dialog"],
+  ["Select", "Combobox", "Autocomplete"],
+  ["Dropdown", "Menu", "ContextMenu"],
+  ["DatePicker", "DateTimePicker", "Calendar"],
+  ["Tooltip", "Toggletip", "Popover"],
+  ["Switch", "Toggle", "InlineSwitch"],
+  ["Spinner", "LoadingPlaceholder", "Loader"],
+  ["Stack", "Flex", "Box"],
+  ["Alert", "Banner", "Notification"],
+  ["Input", "TextField"],
+  ["TextArea", "Textarea"],
+  ["Badge", "Tag", "Chip"],
+  ["RadioButtonGroup", "SegmentedControl", "ButtonGroup"],
+  ["Drawer", "Sidebar", "Sheet"],
+  ["Tabs", "TabsBar"],
+  ["Collapse", "Accordion"],
+];
+
+// A candidate at least this good is used without asking...
+const AUTO_RESOLVE_SCORE = 0.8;
+// ...when it beats the runner-up by this much
+const AUTO_RESOLVE_MARGIN = 0.1;
+const MAX_SUGGESTIONS = 5;
+// Match kinds that identify a name without needing a lead over other candidates
+const DIRECT_MATCHES: MatchReason[] = ["exact", "case", "normalized", "alias"];
+
+/**
+ * Error for names that don't match any known component or symbol
+ * Carries ranked suggestions so callers can return them as structured data
+ */
+export class NameNotFoundError extends Error {
+  constructor(
+    readonly query: string,
+    readonly suggestions: NameSuggestion[],
+    message: string,
+  ) {
+    super(
+      suggestions.length > 0
+        ? `${message}. Did you mean ${suggestions
+            .map((suggestion) => `"${suggestion.name}"`)
+            .join(", ")}?`
+        : message,
+    );
+    this.name = "NameNotFoundError";
+  }
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const normalize = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Score one candidate against a query
+ * @returns The match, or null when the candidate isn't close enough to suggest
+ */
+function scoreName(
+  query: string,
+  candidate: string,
+  aliasGroups: string[][],
+): NameSuggestion | null {
+  if (query === candidate) {
+    return { name: candidate, score: 1.1, reason: "exact" };
+  }
+
+  const queryLower = query.toLowerCase();
+  const candidateLower = candidate.toLowerCase();
+  if (queryLower === candidateLower) {
+    return { name: candidate, score: 1.0, reason: "case" };
+  }
+  if (normalize(query) === normalize(candidate)) {
+    return { name: candidate, score: 0.95, reason: "normalized" };
+  }
+
+  const aliased = aliasGroups.some(
+    (group) =>
+      group.some((alias) => alias.toLowerCase() === queryLower) &&
+      group.some((alias) => alias.toLowerCase() === candidateLower),
+  );
+  if (aliased) {
+    return { name: candidate, score: 0.9, reason: "alias" };
+  }
+
+  const distance = editDistance(queryLower, candidateLower);
+  const longest = Math.max(queryLower.length, candidateLower.length);
+  if (distance <= Math.max(2, Math.floor(longest / 3))) {
+    return {
+      name: candidate,
+      score: 1 - distance / longest,
+      reason: "distance",
+    };
+  }
+
+  if (queryLower.length >= 3 && candidateLower.includes(queryLower)) {
+    return {
+      name: candidate,
+      score: candidateLower.startsWith(queryLower) ? 0.6 : 0.5,
+      reason: "partial",
+    };
+  }
+  return null;
+}
+
+/**
+ * Rank known names by how well they match a query
+ * @param query Name as given
+ * @param candidates Known names
+ * @param aliasGroups Groups of interchangeable names
+ * @returns Matching candidates, best first
+ */
+export function rankNames(
+  query: string,
+  candidates: Iterable<string>,
+  aliasGroups: string[][] = COMPONENT_ALIASES,
+): NameSuggestion[] {
+  const ranked: NameSuggestion[] = [];
+  for (const candidate of new Set(candidates)) {
+    const match = scoreName(query.trim(), candidate, aliasGroups);
+    if (match) {
+      ranked.push(match);
+    }
+  }
+  return ranked.sort(
+    (a, b) => b.score - a.score || a.name.localeCompare(b.name),
+  );
+}
+
+/**
+ * Resolve a possibly misspelled name against the known names
+ * @param query Name as given
+ * @param candidates Known names
+ * @param aliasGroups Groups of interchangeable names
+ * @returns The clear winner if there is one, and the top suggestions
+ */
+export function resolveName(
+  query: string,
+  candidates: Iterable<string>,
+  aliasGroups: string[][] = COMPONENT_ALIASES,
+): NameResolution {
+  const ranked = rankNames(query, candidates, aliasGroups);
+  const [best, runnerUp] = ranked;
+  const suggestions = ranked.slice(0, MAX_SUGGESTIONS);
+
+  // The best tier of direct matches decides on its own: a single candidate
+  // wins, several are ambiguous
+  for (const reason of DIRECT_MATCHES) {
+    const tier = ranked.filter((suggestion) => suggestion.reason === reason);
+    if (tier.length === 1) {
+      return { name: tier[0].name, reason, suggestions };
+    }
+    if (tier.length > 1) {
+      return { name: null, reason: null, suggestions };
+    }
+  }
+
+  // Misspellings need a clear lead over the runner-up
+  if (
+    best &&
+    best.score >= AUTO_RESOLVE_SCORE &&
+    (!runnerUp || best.score - runnerUp.score >= AUTO_RESOLVE_MARGIN)
+  ) {
+    return { name: best.name, reason: best.reason, suggestions };
+  }
+  return { name: null, reason: null, suggestions };
+}
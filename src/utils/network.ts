@@ -0,0 +1,175 @@
+/**
+ * Network settings for reaching GitHub from corporate networks
+ * Custom CA bundles (e.g. for GitHub Enterprise Server behind an internal CA)
+ * and HTTP(S) proxies, including CONNECT tunneling for HTTPS targets.
+ */
+
+import { Axios } from "axios";
+import fs from "fs";
+import http from "http";
+import https from "https";
+import net from "net";
+import tls from "tls";
+
+export interface NetworkOptions {
+  /** PEM file with additional trusted certificates */
+  caFile?: string | null;
+  /** Proxy URL, e.g. "http://proxy.internal:3128" */
+  proxy?: string | null;
+  /** Comma-separated hosts that bypass the proxy (NO_PROXY syntax) */
+  noProxy?: string | null;
+}
+
+/**
+ * Whether a host is excluded from proxying by a NO_PROXY list
+ * Entries match the host itself and its subdomains; "*" matches everything
+ */
+export function bypassesProxy(host: string, noProxy?: string | null): boolean {
+  if (!noProxy) {
+    return false;
+  }
+  const hostname = host.toLowerCase();
+
+  return noProxy
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .some((entry) => {
+      const pattern = entry.toLowerCase().replace(/:\d+$/, "");
+      if (pattern === "*") return true;
+      const suffix = pattern.replace(/^\*?\./, "");
+      return hostname === suffix || hostname.endsWith(`.${suffix}`);
+    });
+}
+
+/**
+ * HTTPS agent that tunnels connections through an HTTP proxy with CONNECT
+ */
+class TunnelingAgent extends https.Agent {
+  constructor(
+    private readonly proxyUrl: URL,
+    options: https.AgentOptions,
+  ) {
+    super({ keepAlive: true, ...options });
+  }
+
+  createConnection(
+    options: any,
+    callback?: (error: Error | null, socket?: net.Socket) => void,
+  ): any {
+    const target = `${options.host}:${options.port || 443}`;
+    const proxyPort = Number(
+      this.proxyUrl.port || (this.proxyUrl.protocol === "https:" ? 443 : 80),
+    );
+    const proxySocket =
+      this.proxyUrl.protocol === "https:"
+        ? tls.connect({
+            host: this.proxyUrl.hostname,
+            port: proxyPort,
+            ca: this.options.ca,
+          })
+        : net.connect({ host: this.proxyUrl.hostname, port: proxyPort });
+
+    const headers = [`CONNECT ${target} HTTP/1.1`, `Host: ${target}`];
+    if (this.proxyUrl.username) {
+      const credentials = `${decodeURIComponent(this.proxyUrl.username)}:${decodeURIComponent(this.proxyUrl.password)}`;
+      headers.push(
+        `Proxy-Authorization: Basic ${Buffer.from(credentials).toString("base64")}`,
+      );
+    }
+
+    let response = "";
+    const onData = (chunk: Buffer) => {
+      response += chunk.toString("latin1");
+      if (!response.includes("\r\n\r\n")) {
+        return;
+      }
+      proxySocket.removeListener("data", onData);
+      proxySocket.removeListener("error", onError);
+
+      const status = Number(response.split(" ")[1]);
+      if (status !== 200) {
+        proxySocket.destroy();
+        callback?.(
+          new Error(
+            `Proxy ${this.proxyUrl.host} refused CONNECT to ${target}: ${response.split("\r\n")[0]}`,
+          ),
+        );
+        return;
+      }
+
+      callback?.(
+        null,
+        tls.connect({
+          ...options,
+          socket: proxySocket,
+          servername: options.servername || options.host,
+        }),
+      );
+    };
+    const onError = (error: Error) => callback?.(error);
+
+    proxySocket.on("data", onData);
+    proxySocket.once("error", onError);
+    proxySocket.write(headers.join("\r\n") + "\r\n\r\n");
+    return undefined;
+  }
+}
+
+/**
+ * Apply CA bundle and proxy settings to an Axios instance
+ * Call after changing the instance's baseURL, since proxy bypass is decided
+ * per target host
+ * @param instance Axios instance to configure
+ * @param options Network settings
+ */
+export function configureNetwork(
+  instance: Axios,
+  options: NetworkOptions,
+): void {
+  const target = new URL(String(instance.defaults.baseURL));
+  const agentOptions: https.AgentOptions = {};
+
+  if (options.caFile) {
+    let bundle: string;
+    try {
+      bundle = fs.readFileSync(options.caFile, "utf8");
+    } catch (error: any) {
+      throw new Error(
+        `Cannot read CA bundle ${options.caFile}: ${error.message}`,
+      );
+    }
+    // An explicit CA list replaces Node's defaults, so keep the public roots
+    agentOptions.ca = [...tls.rootCertificates, bundle];
+  }
+
+  const proxy =
+    options.proxy && !bypassesProxy(target.hostname, options.noProxy)
+      ? new URL(options.proxy)
+      : null;
+
+  // Axios' own proxy support (and its environment variable lookup) can't
+  // tunnel HTTPS, so proxying is handled here
+  instance.defaults.proxy = false;
+  instance.defaults.httpAgent = undefined;
+  instance.defaults.httpsAgent = undefined;
+
+  if (target.protocol === "https:") {
+    instance.defaults.httpsAgent = proxy
+      ? new TunnelingAgent(proxy, agentOptions)
+      : new https.Agent({ keepAlive: true, ...agentOptions });
+  } else if (proxy) {
+    // Plain HTTP goes to the proxy with absolute request URIs
+    instance.defaults.httpAgent = new http.Agent({ keepAlive: true });
+    instance.defaults.proxy = {
+      protocol: proxy.protocol.replace(/:$/, ""),
+      host: proxy.hostname,
+      port: Number(proxy.port || (proxy.protocol === "https:" ? 443 : 80)),
+      ...(proxy.username && {
+        auth: {
+          username: decodeURIComponent(proxy.username),
+          password: decodeURIComponent(proxy.password),
+        },
+      }),
+    };
+  }
+}
@@ -0,0 +1,366 @@
+/**
+ * Content source backed by an installed @grafana/ui package
+ * Serves the published type declarations and ESM build from a project's
+ * node_modules so answers match the exact version the project ships.
+ * Repository paths (packages/grafana-ui/src/...) are mapped onto dist/.
+ */
+
+import fs from "fs";
+import path from "path";
+import { ContentSource, DirEntry, SourceStat } from "./content-source.js";
+
+const PACKAGE_NAME = "@grafana/ui";
+
+// Where the package's own sources live in the Grafana repository
+const REPO_SOURCE_PREFIX = "packages/grafana-ui/src";
+
+// Candidate locations of per-file declarations and ESM modules inside the package
+const DECLARATION_DIRS = ["dist/types", "dist", "dist/esm"];
+const ESM_DIRS = ["dist/esm"];
+const ESM_EXTENSIONS = [".mjs", ".js"];
+
+// Bundled declaration file shipped by most @grafana/ui releases
+const BUNDLED_DECLARATIONS = "dist/index.d.ts";
+
+// Barrel files (any index.ts, plus the unstable entry point); the built
+// package flattens them, so their re-exports can't be followed from here
+const BARREL_FILE_REGEX = /^(?:.*\/)?index\.tsx?$|^unstable\.ts$/;
+
+export interface InstalledPackage {
+  root: string;
+  name: string;
+  version: string;
+  gitHead: string | null;
+}
+
+/**
+ * Locate an installed @grafana/ui package
+ * @param startPath A project directory, a node_modules directory or the package directory itself
+ * @param walkUp Whether to search parent directories (used for auto-detection from cwd)
+ * @returns The installed package, or null if none was found
+ */
+export function findInstalledPackage(
+  startPath: string,
+  walkUp = false,
+): InstalledPackage | null {
+  let current = path.resolve(startPath);
+
+  while (true) {
+    const candidates = [
+      current,
+      path.join(current, ...PACKAGE_NAME.split("/")),
+      path.join(current, "node_modules", ...PACKAGE_NAME.split("/")),
+    ];
+
+    for (const candidate of candidates) {
+      const installed = readPackage(candidate);
+      if (installed) {
+        return installed;
+      }
+    }
+
+    const parent = path.dirname(current);
+    if (!walkUp || parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Read package.json of a candidate package directory
+ */
+function readPackage(packageRoot: string): InstalledPackage | null {
+  try {
+    const packageJson = JSON.parse(
+      fs.readFileSync(path.join(packageRoot, "package.json"), "utf8"),
+    );
+    if (packageJson.name !== PACKAGE_NAME) {
+      return null;
+    }
+    return {
+      root: packageRoot,
+      name: packageJson.name,
+      version: packageJson.version,
+      gitHead: packageJson.gitHead || null,
+    };
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Split a bundled declaration file into top-level statements, keyed by declared name
+ * @param code Declaration file content
+ * @returns Ordered statements and a map of declared name to statement indexes
+ */
+function indexDeclarations(code: string): {
+  statements: string[];
+  byName: Map<string, number[]>;
+} {
+  const statements: string[] = [];
+  let current: string[] = [];
+  let inComment = false;
+  // Set after a JSDoc block so it stays attached to the declaration that follows
+  let attachNext = false;
+
+  // Top-level statements in generated declaration files start at column 0
+  for (const line of code.split("\n")) {
+    const startsStatement =
+      !inComment &&
+      (/^(?:export|declare|interface|type|import)\b/.test(line) ||
+        line.startsWith("/**"));
+
+    if (startsStatement && current.length > 0 && !attachNext) {
+      statements.push(current.join("\n"));
+      current = [];
+    }
+    current.push(line);
+
+    if (!inComment && line.startsWith("/**")) {
+      inComment = !line.includes("*/");
+      attachNext = true;
+    } else if (inComment) {
+      inComment = !line.includes("*/");
+    } else if (startsStatement) {
+      attachNext = false;
+    }
+  }
+  if (current.length > 0) {
+    statements.push(current.join("\n"));
+  }
+
+  const byName = new Map<string, number[]>();
+  const declarationRegex =
+    /^(?:\/\*\*[\s\S]*?\*\/\s*)?(?:export\s+)?(?:declare\s+)?(?:const|let|var|function|class|interface|type|enum|namespace)\s+([\w$]+)/;
+
+  statements.forEach((statement, index) => {
+    const match = statement.match(declarationRegex);
+    if (match) {
+      byName.set(match[1], [...(byName.get(match[1]) || []), index]);
+    }
+  });
+
+  return { statements, byName };
+}
+
+/**
+ * Parse the export list of a bundled declaration file
+ * @param code Declaration file content
+ * @returns Map of public export name to the local declaration name
+ */
+function parseExportMap(code: string): Map<string, string> {
+  const exportMap = new Map<string, string>();
+  const exportRegex = /^export\s+(?:type\s+)?\{([^}]*)\}(?!\s*from)/gm;
+  let match;
+
+  while ((match = exportRegex.exec(code)) !== null) {
+    for (const specifier of match[1].split(",")) {
+      const [local, exported] = specifier
+        .trim()
+        .replace(/^type\s+/, "")
+        .split(/\s+as\s+/);
+      if (local) {
+        exportMap.set((exported || local).trim(), local.trim());
+      }
+    }
+  }
+
+  return exportMap;
+}
+
+/**
+ * Reads @grafana/ui content from an installed package
+ */
+export class NodeModulesSource implements ContentSource {
+  readonly name = "node_modules";
+  readonly description: string;
+
+  private bundled: {
+    code: string;
+    statements: string[];
+    byName: Map<string, number[]>;
+    exports: Map<string, string>;
+  } | null = null;
+
+  constructor(readonly installed: InstalledPackage) {
+    this.description = `installed ${installed.name}@${installed.version}`;
+  }
+
+  /**
+   * Whether a requested ref refers to the installed version
+   * Matches "11.2.0", "v11.2.0" and the package's gitHead SHA
+   */
+  matchesRef(ref?: string): boolean {
+    if (!ref) {
+      return true;
+    }
+    const { version, gitHead } = this.installed;
+    return (
+      ref === version ||
+      ref === `v${version}` ||
+      (!!gitHead && ref.length >= 7 && gitHead.startsWith(ref))
+    );
+  }
+
+  /**
+   * Public export names of the package, taken from its bundled declarations
+   */
+  getExports(): string[] {
+    const bundled = this.loadBundled();
+    return bundled ? [...bundled.exports.keys()].sort() : [];
+  }
+
+  private packagePath(relativePath: string): string {
+    return path.join(this.installed.root, ...relativePath.split("/"));
+  }
+
+  /**
+   * Map a repository path to a path relative to packages/grafana-ui/src
+   */
+  private toPackageRelative(repoPath: string): string | null {
+    if (repoPath === REPO_SOURCE_PREFIX) {
+      return "";
+    }
+    return repoPath.startsWith(`${REPO_SOURCE_PREFIX}/`)
+      ? repoPath.slice(REPO_SOURCE_PREFIX.length + 1)
+      : null;
+  }
+
+  private readIfExists(relativePath: string): string | null {
+    try {
+      return fs.readFileSync(this.packagePath(relativePath), "utf8");
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private loadBundled() {
+    if (this.bundled === null) {
+      const code = this.readIfExists(BUNDLED_DECLARATIONS);
+      if (code !== null) {
+        this.bundled = {
+          code,
+          ...indexDeclarations(code),
+          exports: parseExportMap(code),
+        };
+      }
+    }
+    return this.bundled;
+  }
+
+  /**
+   * Extract the declarations of one exported symbol (and the types it references)
+   * from the bundled declaration file
+   * @param symbol Public export name
+   * @returns Declaration text, or null when the symbol isn't declared
+   */
+  private sliceBundledDeclarations(symbol: string): string | null {
+    const bundled = this.loadBundled();
+    if (!bundled) {
+      return null;
+    }
+
+    const localName = bundled.exports.get(symbol);
+    if (!localName || !bundled.byName.has(localName)) {
+      return null;
+    }
+
+    // Follow referenced declarations two levels deep to include prop types
+    const included = new Set<number>();
+    let frontier = [localName];
+    for (let depth = 0; depth < 3 && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const name of frontier) {
+        for (const index of bundled.byName.get(name) || []) {
+          if (included.has(index)) continue;
+          included.add(index);
+          const identifiers =
+            bundled.statements[index].match(/\b[A-Za-z_][\w$]*/g) || [];
+          next.push(
+            ...identifiers.filter(
+              (identifier) =>
+                identifier !== name && bundled.byName.has(identifier),
+            ),
+          );
+        }
+      }
+      frontier = [...new Set(next)];
+    }
+
+    // Props types are usually exported alongside the component
+    const propsName = bundled.exports.get(`${symbol}Props`);
+    for (const index of (propsName && bundled.byName.get(propsName)) || []) {
+      included.add(index);
+    }
+
+    return [...included]
+      .sort((a, b) => a - b)
+      .map((index) => bundled.statements[index])
+      .join("\n");
+  }
+
+  async readFile(filePath: string, ref?: string): Promise<string | null> {
+    const relative = this.toPackageRelative(filePath);
+    if (relative === null || !this.matchesRef(ref)) {
+      return null;
+    }
+
+    const extension = path.extname(relative);
+    if (extension !== ".ts" && extension !== ".tsx") {
+      return null;
+    }
+    // Barrels are left to the next source so export maps reach the files
+    // declaring each component
+    if (BARREL_FILE_REGEX.test(relative)) {
+      return null;
+    }
+    const base = relative.slice(0, -extension.length);
+
+    // Per-file declarations, or the symbol's slice of the bundled declarations
+    const declarations =
+      DECLARATION_DIRS.map((dir) => `${dir}/${base}.d.ts`)
+        .filter((declarationPath) => declarationPath !== BUNDLED_DECLARATIONS)
+        .map((declarationPath) => this.readIfExists(declarationPath))
+        .find((content) => content !== null) ??
+      this.sliceBundledDeclarations(path.basename(base));
+    const implementation =
+      ESM_DIRS.flatMap((dir) =>
+        ESM_EXTENSIONS.map((ext) => this.readIfExists(`${dir}/${base}${ext}`)),
+      ).find((content) => content !== null) ?? null;
+
+    if (declarations === null && implementation === null) {
+      return null;
+    }
+
+    const { name, version } = this.installed;
+    const parts = [
+      `// Served from the installed ${name}@${version} package (${filePath})`,
+    ];
+    if (declarations !== null) {
+      parts.push("// --- Type declarations ---", declarations);
+    }
+    if (implementation !== null) {
+      parts.push("// --- ESM build ---", implementation);
+    }
+    return parts.join("\n");
+  }
+
+  async listDir(): Promise<DirEntry[] | null> {
+    // dist/ doesn't mirror the repository: bundled releases flatten it, and no
+    // release ships barrels, stories, docs or tests. Listings, and the export
+    // maps resolved through them, are left to the next source
+    return null;
+  }
+
+  async stat(filePath: string, ref?: string): Promise<SourceStat | null> {
+    const content = await this.readFile(filePath, ref);
+    return content === null
+      ? null
+      : { path: filePath, type: "file", size: content.length };
+  }
+
+  async resolveRef(ref?: string): Promise<string | null> {
+    return this.matchesRef(ref) ? this.installed.gitHead : null;
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Path layouts of the Grafana packages the server can read
+ * @grafana/ui is organised by component directory; the sibling packages are
+ * organised by domain, so their symbols are found through the package's
+ * barrel files instead.
+ */
+
+/**
+ * API surface an export belongs to: the main entry point, the unstable one
+ * (`@grafana/ui/unstable`), or one meant for Grafana itself
+ * (`@grafana/ui/internal`)
+ */
+export type StabilityTier = "stable" | "unstable" | "internal";
+
+export interface EntryPoint {
+  /** Barrel file in the repository */
+  path: string;
+  tier: StabilityTier;
+}
+
+export interface PackageLayout {
+  /** Short identifier used by the `package` parameter (e.g. "data") */
+  id: string;
+  /** npm package name (e.g. "@grafana/data") */
+  name: string;
+  /** Package directory in the repository */
+  root: string;
+  /** Source directory in the repository */
+  src: string;
+  /** Component directories (one per component), for packages that have them */
+  componentsPath: string | null;
+  /** Barrel files whose exports make up the API, most stable first */
+  entryPoints: EntryPoint[];
+}
+
+// Entry points relative to the source directory, by tier
+const DEFAULT_ENTRY_POINTS: Record<string, StabilityTier> = {
+  "index.ts": "stable",
+};
+
+function layout(
+  id: string,
+  options: {
+    componentsPath?: string;
+    entryPoints?: Record<string, StabilityTier>;
+  } = {},
+): PackageLayout {
+  const root = `packages/grafana-${id}`;
+  const src = `${root}/src`;
+  return {
+    id,
+    name: `@grafana/${id}`,
+    root,
+    src,
+    componentsPath: options.componentsPath
+      ? `${src}/${options.componentsPath}`
+      : null,
+    entryPoints: Object.entries(
+      options.entryPoints || DEFAULT_ENTRY_POINTS,
+    ).map(([entryPoint, tier]) => ({ path: `${src}/${entryPoint}`, tier })),
+  };
+}
+
+export const PACKAGE_LAYOUTS: Record<string, PackageLayout> = {
+  ui: layout("ui", {
+    componentsPath: "components",
+    entryPoints: {
+      "index.ts": "stable",
+      "unstable.ts": "unstable",
+      "internal/index.ts": "internal",
+    },
+  }),
+  data: layout("data"),
+  runtime: layout("runtime", {
+    entryPoints: {
+      "index.ts": "stable",
+      "unstable.ts": "unstable",
+      "internal/index.ts": "internal",
+    },
+  }),
+  schema: layout("schema"),
+};
+
+export const DEFAULT_PACKAGE = "ui";
+
+/**
+ * Package identifiers accepted by the `package` parameter
+ */
+export const PACKAGE_IDS = Object.keys(PACKAGE_LAYOUTS);
+
+/**
+ * Look up a package layout
+ * @param packageName "data", "@grafana/data" or "grafana-data" (default: @grafana/ui)
+ * @returns The package layout
+ */
+export function getPackageLayout(packageName?: string | null): PackageLayout {
+  if (!packageName) {
+    return PACKAGE_LAYOUTS[DEFAULT_PACKAGE];
+  }
+
+  const id = packageName
+    .trim()
+    .toLowerCase()
+    .replace(/^@grafana\//, "")
+    .replace(/^grafana-/, "");
+  const packageLayout = PACKAGE_LAYOUTS[id];
+  if (!packageLayout) {
+    throw new Error(
+      `Unknown package "${packageName}". Supported packages: ${Object.values(
+        PACKAGE_LAYOUTS,
+      )
+        .map((entry) => entry.name)
+        .join(", ")}`,
+    );
+  }
+  return packageLayout;
+}
@@ -0,0 +1,856 @@
+/**
+ * Prop extraction for React components using the TypeScript compiler API
+ * Finds the components a file declares (function components, forwardRef and
+ * memo wrappers, FC-annotated constants, class components) and lists the
+ * members of their props types: type text as written, optionality, JSDoc
+ * description, and the default from a @default tag or from destructuring.
+ * Props types are followed through `extends`, intersections, unions,
+ * Omit/Pick/Partial/Required and imports from other files of the repository;
+ * React's DOM attribute types are expanded from a list of attribute names.
+ * Each prop records whether it is the component's own (a member of its props
+ * type, wherever that is declared), inherited (reached through `extends`, a
+ * type intersected in or a utility type), or a DOM attribute.
+ */
+
+import ts from "typescript";
+import { PropDefinition } from "./component-parser.js";
+import { Deprecation, deprecationOf } from "./deprecations.js";
+import { domAttributeNames } from "./dom-attributes.js";
+
+export interface ExtractedComponent {
+  /** Name the component is declared under in the file */
+  name: string;
+  /** Whether the file exports the component */
+  exported: boolean;
+  /** Text of the component's JSDoc comment */
+  description?: string;
+  /** The component's @deprecated tag, or null */
+  deprecation: Deprecation | null;
+  /** Props type as written (e.g. "Props", "CommonProps & { size?: Size }"), or null when untyped */
+  propsType: string | null;
+  props: PropDefinition[];
+  /** Parts of the props type that couldn't be followed (other packages, generics, computed types) */
+  externalPropTypes: string[];
+}
+
+/**
+ * Reads the files a props type refers to
+ */
+export interface PropTypeReader {
+  readFile(filePath: string): Promise<string | null>;
+  /**
+   * Find where a name used in a file is declared, following relative imports
+   * @returns The declaring file and the name used there, or null
+   */
+  findDeclaration(
+    filePath: string,
+    name: string,
+  ): Promise<{ file: string; localName: string } | null>;
+}
+
+interface ComponentSignature {
+  /** Props type node */
+  type?: ts.TypeNode;
+  /** Destructured props parameter, which carries runtime defaults */
+  binding?: ts.ObjectBindingPattern;
+}
+
+interface FileContext {
+  filePath: string;
+  sourceFile: ts.SourceFile;
+  /** Interface and type alias declarations by name (interfaces may merge) */
+  types: Map<string, Array<ts.InterfaceDeclaration | ts.TypeAliasDeclaration>>;
+  /** Top-level value declarations by name, in declaration order */
+  values: Map<string, ts.Node>;
+  /** Names of the values the file exports */
+  exported: Set<string>;
+}
+
+interface CollectState {
+  /**
+   * Whether members belong to the component's props type itself rather than
+   * to a type it extends, intersects or wraps in a utility type
+   */
+  own: boolean;
+  /** Receives the parts of the props type that couldn't be followed */
+  external: string[];
+  /** Types being expanded, as file:name, so recursive types can't loop */
+  expanding: Set<string>;
+}
+
+// Annotations whose first type argument is the props type
+const COMPONENT_TYPES = new Set([
+  "FC",
+  "VFC",
+  "FunctionComponent",
+  "ComponentType",
+  "ComponentClass",
+  "ForwardRefExoticComponent",
+  "NamedExoticComponent",
+  "MemoExoticComponent",
+  "ExoticComponent",
+]);
+// Wrappers whose type argument (forwardRef's second) is the props type
+const COMPONENT_WRAPPERS = new Set(["forwardRef", "memo"]);
+// Intersected into exotic component types; not props
+const IGNORED_PROP_TYPES = new Set(["RefAttributes", "React.RefAttributes"]);
+// Built-in mapped types that props types are composed with
+const UTILITY_TYPES = new Set([
+  "Omit",
+  "Pick",
+  "Partial",
+  "Required",
+  "Readonly",
+]);
+
+/**
+ * Extracts components and their props, reading the files their props types
+ * are imported from; parsed files are kept for the extractor's lifetime
+ */
+export class PropExtractor {
+  private readonly files = new Map<string, Promise<FileContext | null>>();
+
+  /**
+   * @param reader Reads imported files; without one, only types declared in
+   * the component's own file are expanded
+   */
+  constructor(private readonly reader?: PropTypeReader) {}
+
+  /**
+   * Extract the components declared in a file and their props
+   * @param code TypeScript source code
+   * @param filePath Repository path of the file; its extension picks the
+   * parser (.tsx, .ts or .d.ts)
+   * @returns Components in declaration order
+   */
+  async extractComponents(
+    code: string,
+    filePath: string = "component.tsx",
+  ): Promise<ExtractedComponent[]> {
+    const context = parseFile(code, filePath);
+    this.files.set(filePath, Promise.resolve(context));
+
+    const components: ExtractedComponent[] = [];
+    for (const [name, node] of context.values) {
+      // Components are PascalCase; this skips hooks, helpers and getStyles
+      if (!/^[A-Z]/.test(name)) {
+        continue;
+      }
+      const signature = componentSignature(node, context, new Set([name]));
+      if (!signature) {
+        continue;
+      }
+
+      const state: CollectState = {
+        own: true,
+        external: [],
+        expanding: new Set(),
+      };
+      const props = signature.type
+        ? await this.collectProps(signature.type, context, null, state)
+        : new Map<string, PropDefinition>();
+      applyBindingDefaults(props, signature.binding, context.sourceFile);
+
+      components.push({
+        name,
+        exported: context.exported.has(name),
+        description: jsDocDescription(node),
+        deprecation: deprecationOf(node),
+        propsType: signature.type
+          ? typeText(signature.type, context.sourceFile)
+          : null,
+        props: [...props.values()],
+        externalPropTypes: [...new Set(state.external)],
+      });
+    }
+    return components;
+  }
+
+  private fileContext(filePath: string): Promise<FileContext | null> {
+    let context = this.files.get(filePath);
+    if (!context) {
+      context = (async () => {
+        const code = await this.reader?.readFile(filePath).catch(() => null);
+        return code ? parseFile(code, filePath) : null;
+      })();
+      this.files.set(filePath, context);
+    }
+    return context;
+  }
+
+  /**
+   * Find the declarations of a type name used in a file, in the file itself
+   * or in the repository file it is imported from
+   */
+  private async findType(
+    name: string,
+    context: FileContext,
+  ): Promise<{
+    context: FileContext;
+    name: string;
+    declarations: Array<ts.InterfaceDeclaration | ts.TypeAliasDeclaration>;
+  } | null> {
+    const local = context.types.get(name);
+    if (local) {
+      return { context, name, declarations: local };
+    }
+    if (!this.reader || name.includes(".")) {
+      return null;
+    }
+
+    const declaration = await this.reader
+      .findDeclaration(context.filePath, name)
+      .catch(() => null);
+    if (!declaration || declaration.file === context.filePath) {
+      return null;
+    }
+    const declaringContext = await this.fileContext(declaration.file);
+    const declarations = declaringContext?.types.get(declaration.localName);
+    return declaringContext && declarations
+      ? { context: declaringContext, name: declaration.localName, declarations }
+      : null;
+  }
+
+  /**
+   * Collect the members of a props type
+   * @param owner Name of the type alias or interface being expanded, which
+   * inherited members are reported as inherited from
+   * @returns Props by name, own members before inherited ones
+   */
+  private async collectProps(
+    type: ts.TypeNode,
+    context: FileContext,
+    owner: string | null,
+    state: CollectState,
+  ): Promise<Map<string, PropDefinition>> {
+    if (ts.isParenthesizedTypeNode(type)) {
+      return this.collectProps(type.type, context, owner, state);
+    }
+
+    if (ts.isTypeLiteralNode(type)) {
+      return membersToProps(type.members, context, owner, state);
+    }
+
+    if (ts.isIntersectionTypeNode(type)) {
+      // Members written out in the intersection stay own; the types it
+      // combines are inherited
+      const props = new Map<string, PropDefinition>();
+      for (const part of type.types) {
+        const partState = ts.isTypeLiteralNode(part)
+          ? state
+          : { ...state, own: false };
+        addMissing(
+          props,
+          await this.collectProps(part, context, owner, partState),
+        );
+      }
+      return props;
+    }
+
+    if (ts.isUnionTypeNode(type)) {
+      const branches: Array<Map<string, PropDefinition>> = [];
+      for (const branch of type.types) {
+        branches.push(await this.collectProps(branch, context, owner, state));
+      }
+      return mergeUnionBranches(branches);
+    }
+
+    if (
+      ts.isTypeReferenceNode(type) ||
+      ts.isExpressionWithTypeArguments(type)
+    ) {
+      return this.referenceProps(type, context, owner, state);
+    }
+
+    state.external.push(typeText(type, context.sourceFile));
+    return new Map();
+  }
+
+  private async referenceProps(
+    type: ts.TypeReferenceNode | ts.ExpressionWithTypeArguments,
+    context: FileContext,
+    owner: string | null,
+    state: CollectState,
+  ): Promise<Map<string, PropDefinition>> {
+    const name = ts.isTypeReferenceNode(type)
+      ? type.typeName.getText(context.sourceFile)
+      : type.expression.getText(context.sourceFile);
+    const typeArguments = type.typeArguments ?? [];
+    if (IGNORED_PROP_TYPES.has(name)) {
+      return new Map();
+    }
+
+    const found = await this.findType(name, context);
+
+    if (!found && UTILITY_TYPES.has(name) && typeArguments.length > 0) {
+      return this.utilityProps(name, typeArguments, context, owner, state);
+    }
+
+    if (found) {
+      const key = `${found.context.filePath}:${found.name}`;
+      if (state.expanding.has(key)) {
+        return new Map();
+      }
+      const nested: CollectState = {
+        ...state,
+        expanding: new Set(state.expanding).add(key),
+      };
+
+      const props = new Map<string, PropDefinition>();
+      for (const declaration of found.declarations) {
+        if (ts.isTypeAliasDeclaration(declaration)) {
+          addMissing(
+            props,
+            await this.collectProps(
+              declaration.type,
+              found.context,
+              found.name,
+              nested,
+            ),
+          );
+          continue;
+        }
+        addMissing(
+          props,
+          membersToProps(declaration.members, found.context, found.name, state),
+        );
+        for (const clause of declaration.heritageClauses ?? []) {
+          for (const base of clause.types) {
+            addMissing(
+              props,
+              await this.collectProps(base, found.context, found.name, {
+                ...nested,
+                own: false,
+              }),
+            );
+          }
+        }
+      }
+      return props;
+    }
+
+    // React's DOM attribute types, referenced as React.X or imported from 'react'
+    const domType = name.replace(/^React\./, "");
+    const element = typeArguments[0];
+    const attributes = domType.includes(".")
+      ? null
+      : domAttributeNames(
+          domType,
+          element &&
+            ts.isLiteralTypeNode(element) &&
+            ts.isStringLiteral(element.literal)
+            ? element.literal.text
+            : undefined,
+        );
+    if (attributes) {
+      const written = typeText(type, context.sourceFile);
+      return new Map(
+        attributes.map((attribute) => [
+          attribute,
+          {
+            name: attribute,
+            type: `${written}['${attribute}']`,
+            required: false,
+            origin: "dom",
+            inheritedFrom: written,
+          },
+        ]),
+      );
+    }
+
+    state.external.push(typeText(type, context.sourceFile));
+    return new Map();
+  }
+
+  /**
+   * Props of Omit<T, K>, Pick<T, K>, Partial<T>, Required<T> and Readonly<T>
+   */
+  private async utilityProps(
+    name: string,
+    typeArguments: readonly ts.TypeNode[],
+    context: FileContext,
+    owner: string | null,
+    state: CollectState,
+  ): Promise<Map<string, PropDefinition>> {
+    const props = await this.collectProps(typeArguments[0], context, owner, {
+      ...state,
+      own: false,
+    });
+
+    if (name === "Partial" || name === "Required") {
+      props.forEach((prop, propName) =>
+        props.set(propName, { ...prop, required: name === "Required" }),
+      );
+      return props;
+    }
+    if (name === "Readonly") {
+      return props;
+    }
+
+    const keys = typeArguments[1]
+      ? await this.keysOf(typeArguments[1], context, state)
+      : null;
+    if (keys === null) {
+      // Unknown keys: Omit keeps everything, Pick can't tell what it keeps
+      state.external.push(
+        `${name}<${typeArguments.map((argument) => typeText(argument, context.sourceFile)).join(", ")}>`,
+      );
+      return name === "Omit" ? props : new Map();
+    }
+    for (const propName of [...props.keys()]) {
+      if (keys.includes(propName) === (name === "Omit")) {
+        props.delete(propName);
+      }
+    }
+    return props;
+  }
+
+  /**
+   * Resolve the keys of Omit and Pick: string literals, unions of them,
+   * `keyof T`, and aliases of those
+   * @returns Key names, or null when they can't be worked out
+   */
+  private async keysOf(
+    type: ts.TypeNode,
+    context: FileContext,
+    state: CollectState,
+  ): Promise<string[] | null> {
+    if (ts.isParenthesizedTypeNode(type)) {
+      return this.keysOf(type.type, context, state);
+    }
+    if (ts.isLiteralTypeNode(type) && ts.isStringLiteral(type.literal)) {
+      return [type.literal.text];
+    }
+    if (ts.isUnionTypeNode(type)) {
+      const keys: string[] = [];
+      for (const member of type.types) {
+        const memberKeys = await this.keysOf(member, context, state);
+        if (memberKeys === null) {
+          return null;
+        }
+        keys.push(...memberKeys);
+      }
+      return keys;
+    }
+    if (
+      ts.isTypeOperatorNode(type) &&
+      type.operator === ts.SyntaxKind.KeyOfKeyword
+    ) {
+      // Unfollowed parts of T don't belong in the props' external types
+      const props = await this.collectProps(type.type, context, null, {
+        ...state,
+        external: [],
+      });
+      return [...props.keys()];
+    }
+    if (ts.isTypeReferenceNode(type)) {
+      const found = await this.findType(
+        type.typeName.getText(context.sourceFile),
+        context,
+      );
+      const alias = found?.declarations.find(ts.isTypeAliasDeclaration);
+      return found && alias
+        ? this.keysOf(alias.type, found.context, state)
+        : null;
+    }
+    return null;
+  }
+}
+
+/**
+ * Pick a component out of a file's components
+ * @param components Components returned by PropExtractor.extractComponents
+ * @param name Name the component is declared under
+ * @returns The component with that name, the file's only exported component
+ * when none matches, or null
+ */
+export function findComponent(
+  components: ExtractedComponent[],
+  name: string,
+): ExtractedComponent | null {
+  const match = components.find((component) => component.name === name);
+  if (match) {
+    return match;
+  }
+  const exported = components.filter((component) => component.exported);
+  return exported.length === 1 ? exported[0] : null;
+}
+
+function parseFile(code: string, filePath: string): FileContext {
+  const sourceFile = ts.createSourceFile(
+    filePath,
+    code,
+    ts.ScriptTarget.Latest,
+    true,
+    filePath.endsWith(".tsx") ? ts.ScriptKind.TSX : ts.ScriptKind.TS,
+  );
+  const context: FileContext = {
+    filePath,
+    sourceFile,
+    types: new Map(),
+    values: new Map(),
+    exported: new Set(),
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (
+      ts.isInterfaceDeclaration(statement) ||
+      ts.isTypeAliasDeclaration(statement)
+    ) {
+      const declarations = context.types.get(statement.name.text) ?? [];
+      declarations.push(statement);
+      context.types.set(statement.name.text, declarations);
+    } else if (
+      (ts.isFunctionDeclaration(statement) ||
+        ts.isClassDeclaration(statement)) &&
+      statement.name
+    ) {
+      context.values.set(statement.name.text, statement);
+      if (hasExportModifier(statement)) {
+        context.exported.add(statement.name.text);
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          context.values.set(declaration.name.text, declaration);
+          if (hasExportModifier(statement)) {
+            context.exported.add(declaration.name.text);
+          }
+        }
+      }
+    } else if (
+      ts.isExportDeclaration(statement) &&
+      !statement.moduleSpecifier &&
+      statement.exportClause &&
+      ts.isNamedExports(statement.exportClause)
+    ) {
+      // export { Button, Internal as Public }
+      for (const element of statement.exportClause.elements) {
+        context.exported.add((element.propertyName ?? element.name).text);
+      }
+    } else if (
+      ts.isExportAssignment(statement) &&
+      ts.isIdentifier(statement.expression)
+    ) {
+      context.exported.add(statement.expression.text);
+    }
+  }
+  return context;
+}
+
+function hasExportModifier(node: ts.Node): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) ?? []).some(
+      (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword,
+    )
+  );
+}
+
+/**
+ * Work out whether a declaration is a component and where its props come from
+ * @param visited Names already followed, so aliases can't loop
+ * @returns The props type and destructuring pattern, or null for non-components
+ */
+function componentSignature(
+  node: ts.Node,
+  context: FileContext,
+  visited: Set<string>,
+): ComponentSignature | null {
+  if (
+    ts.isFunctionDeclaration(node) ||
+    ts.isArrowFunction(node) ||
+    ts.isFunctionExpression(node)
+  ) {
+    return functionSignature(node.parameters);
+  }
+
+  if (ts.isClassDeclaration(node)) {
+    for (const clause of node.heritageClauses ?? []) {
+      const base = clause.types[0];
+      if (
+        clause.token === ts.SyntaxKind.ExtendsKeyword &&
+        /(?:^|\.)(?:Pure)?Component$/.test(base.expression.getText())
+      ) {
+        return { type: base.typeArguments?.[0] };
+      }
+    }
+    return null;
+  }
+
+  if (ts.isVariableDeclaration(node)) {
+    const annotated = node.type ? annotationSignature(node.type) : null;
+    const initialized = node.initializer
+      ? expressionSignature(node.initializer, context, visited)
+      : null;
+    if (!annotated && !initialized) {
+      return null;
+    }
+    return {
+      type: annotated?.type ?? initialized?.type,
+      binding: initialized?.binding,
+    };
+  }
+
+  return null;
+}
+
+function functionSignature(
+  parameters: ts.NodeArray<ts.ParameterDeclaration>,
+): ComponentSignature | null {
+  // Function components take props and, with forwardRef, a ref
+  if (parameters.length > 2) {
+    return null;
+  }
+  const props = parameters[0];
+  return {
+    type: props?.type,
+    binding:
+      props && ts.isObjectBindingPattern(props.name) ? props.name : undefined,
+  };
+}
+
+/**
+ * Signature from a declaration's type annotation
+ * (React.FC<Props>, ForwardRefExoticComponent<...>, (props: Props) => ...)
+ */
+function annotationSignature(type: ts.TypeNode): ComponentSignature | null {
+  if (ts.isTypeReferenceNode(type)) {
+    const name = type.typeName.getText().split(".").pop()!;
+    if (COMPONENT_TYPES.has(name)) {
+      return { type: type.typeArguments?.[0] };
+    }
+    return null;
+  }
+  if (ts.isFunctionTypeNode(type)) {
+    return functionSignature(type.parameters);
+  }
+  return null;
+}
+
+/**
+ * Signature from a declaration's initializer, looking through forwardRef,
+ * memo and other wrappers (withTheme2, Object.assign) to the function inside
+ */
+function expressionSignature(
+  expression: ts.Expression,
+  context: FileContext,
+  visited: Set<string>,
+): ComponentSignature | null {
+  if (
+    ts.isParenthesizedExpression(expression) ||
+    ts.isAsExpression(expression) ||
+    ts.isSatisfiesExpression(expression)
+  ) {
+    return expressionSignature(expression.expression, context, visited);
+  }
+
+  if (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression)) {
+    return functionSignature(expression.parameters);
+  }
+
+  if (ts.isIdentifier(expression)) {
+    const declaration = context.values.get(expression.text);
+    if (!declaration || visited.has(expression.text)) {
+      return null;
+    }
+    visited.add(expression.text);
+    return componentSignature(declaration, context, visited);
+  }
+
+  if (ts.isCallExpression(expression) && expression.arguments.length > 0) {
+    const inner = expressionSignature(
+      expression.arguments[0],
+      context,
+      visited,
+    );
+    if (!inner) {
+      return null;
+    }
+    const callee = expression.expression.getText().split(".").pop()!;
+    if (COMPONENT_WRAPPERS.has(callee) && expression.typeArguments) {
+      const typeArgument =
+        callee === "forwardRef"
+          ? expression.typeArguments[1]
+          : expression.typeArguments[0];
+      return { type: typeArgument ?? inner.type, binding: inner.binding };
+    }
+    return inner;
+  }
+
+  return null;
+}
+
+/**
+ * Add the props a map doesn't have yet; earlier props (own members, the
+ * first part of an intersection) win
+ */
+function addMissing(
+  props: Map<string, PropDefinition>,
+  more: Map<string, PropDefinition>,
+): void {
+  more.forEach((prop, name) => {
+    if (!props.has(name)) {
+      props.set(name, prop);
+    }
+  });
+}
+
+/**
+ * Merge the props of union branches: a prop is required only when every
+ * branch requires it, and differing types are joined into a union
+ */
+function mergeUnionBranches(
+  branches: Array<Map<string, PropDefinition>>,
+): Map<string, PropDefinition> {
+  const props = new Map<string, PropDefinition>();
+  for (const branch of branches) {
+    branch.forEach((prop, name) => {
+      const existing = props.get(name);
+      if (!existing) {
+        props.set(name, { ...prop });
+        return;
+      }
+      if (!existing.type.split(" | ").includes(prop.type)) {
+        existing.type = `${existing.type} | ${prop.type}`;
+      }
+      existing.required = existing.required && prop.required;
+      existing.description ??= prop.description;
+    });
+  }
+  props.forEach((prop, name) => {
+    if (branches.some((branch) => !branch.has(name))) {
+      prop.required = false;
+    }
+  });
+  return props;
+}
+
+/**
+ * Turn the members of an interface or type literal into props
+ * @param owner Name of the declaring interface or type alias
+ */
+function membersToProps(
+  members: ts.NodeArray<ts.TypeElement>,
+  context: FileContext,
+  owner: string | null,
+  state: CollectState,
+): Map<string, PropDefinition> {
+  const sourceFile = context.sourceFile;
+  const inherited = !state.own;
+  const props = new Map<string, PropDefinition>();
+  for (const member of members) {
+    if (!ts.isPropertySignature(member) && !ts.isMethodSignature(member)) {
+      continue;
+    }
+    const name = propertyName(member.name);
+    if (name === null) {
+      continue;
+    }
+
+    let type: string;
+    if (ts.isMethodSignature(member)) {
+      const parameters = member.parameters
+        .map((parameter) => parameter.getText(sourceFile))
+        .join(", ");
+      const returnType = member.type
+        ? typeText(member.type, sourceFile)
+        : "void";
+      type = normalizeText(`(${parameters}) => ${returnType}`);
+    } else {
+      type = member.type ? typeText(member.type, sourceFile) : "any";
+    }
+
+    const prop: PropDefinition = {
+      name,
+      type,
+      required: !member.questionToken,
+      description: jsDocDescription(member),
+      origin: inherited ? "inherited" : "own",
+    };
+    if (inherited) {
+      prop.inheritedFrom = owner ?? undefined;
+      prop.declaredIn = context.filePath;
+    }
+    const deprecation = deprecationOf(member);
+    if (deprecation) {
+      prop.deprecation = deprecation;
+    }
+    const defaultTag = ts
+      .getJSDocTags(member)
+      .find((tag) => ["default", "defaultValue"].includes(tag.tagName.text));
+    const defaultValue = defaultTag
+      ? ts.getTextOfJSDocComment(defaultTag.comment)?.trim()
+      : undefined;
+    if (defaultValue) {
+      prop.defaultValue = defaultValue;
+      prop.defaultSource = "jsdoc";
+    }
+    props.set(name, prop);
+  }
+  return props;
+}
+
+/**
+ * Record the defaults of a destructured props parameter
+ * ({ size = 'md', variant = 'primary' }); these win over @default tags, as
+ * they are what the component actually uses
+ */
+function applyBindingDefaults(
+  props: Map<string, PropDefinition>,
+  binding: ts.ObjectBindingPattern | undefined,
+  sourceFile: ts.SourceFile,
+): void {
+  for (const element of binding?.elements ?? []) {
+    if (element.dotDotDotToken || !element.initializer) {
+      continue;
+    }
+    // { 'aria-label': ariaLabel = '' } is keyed by its property name
+    const name = element.propertyName
+      ? propertyName(element.propertyName)
+      : ts.isIdentifier(element.name)
+        ? element.name.text
+        : null;
+    const prop = name === null ? undefined : props.get(name);
+    if (prop) {
+      prop.defaultValue = normalizeText(
+        element.initializer.getText(sourceFile),
+      );
+      prop.defaultSource = "destructuring";
+    }
+  }
+}
+
+function propertyName(name: ts.PropertyName): string | null {
+  if (
+    ts.isIdentifier(name) ||
+    ts.isStringLiteral(name) ||
+    ts.isNumericLiteral(name) ||
+    ts.isPrivateIdentifier(name)
+  ) {
+    return name.text;
+  }
+  return null;
+}
+
+/**
+ * Text of the JSDoc comment attached to a node, without its tags
+ */
+function jsDocDescription(node: ts.Node): string | undefined {
+  const docs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+  const text = docs.length
+    ? ts.getTextOfJSDocComment(docs[docs.length - 1].comment)?.trim()
+    : undefined;
+  return text || undefined;
+}
+
+/**
+ * Type text as written, on one line (multi-line unions lose their leading |)
+ */
+function typeText(type: ts.Node, sourceFile: ts.SourceFile): string {
+  return normalizeText(type.getText(sourceFile)).replace(/^\|\s*/, "");
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,306 @@
+/**
+ * Rate-limit-aware request scheduler for GitHub
+ * Wraps the adapters of the Axios instances it is attached to so every
+ * request is queued behind a concurrency limit, paced against the budget
+ * reported in X-RateLimit-* headers, and retried on transient failures.
+ */
+
+import axios, {
+  Axios,
+  AxiosAdapter,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+
+export interface RateLimitBudget {
+  resource: string;
+  limit: number;
+  remaining: number;
+  used: number;
+  /** Epoch seconds at which the budget resets */
+  reset: number;
+  /** When the budget was last read from response headers */
+  updatedAt: number;
+}
+
+export interface SchedulerOptions {
+  /** Requests allowed in flight at once, across all attached instances */
+  maxConcurrent?: number;
+  /** Retries for 5xx, secondary rate limits and connection resets */
+  maxRetries?: number;
+  /** First backoff delay; doubled on every retry */
+  baseDelayMs?: number;
+  /** Longest the scheduler will wait for a reset or Retry-After before failing */
+  maxWaitMs?: number;
+  /** Remaining requests below which requests are spread over the reset window */
+  reserve?: number;
+}
+
+export interface AttachOptions {
+  /** Whether responses carry GitHub's X-RateLimit-* budget headers */
+  rateLimited: boolean;
+}
+
+const RETRYABLE_STATUSES = [500, 502, 503, 504];
+const RETRYABLE_ERROR_CODES = ["ECONNRESET", "ETIMEDOUT", "ECONNABORTED"];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Read a header from an Axios response regardless of its casing
+ */
+function header(response: AxiosResponse, name: string): string | undefined {
+  const headers = response.headers as any;
+  const value =
+    typeof headers?.get === "function"
+      ? headers.get(name)
+      : headers?.[name.toLowerCase()];
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+/**
+ * The rate limit resource a GitHub API path counts against
+ */
+function resourceFor(url?: string): string {
+  if (url?.startsWith("/search")) return "search";
+  if (url?.startsWith("/graphql")) return "graphql";
+  return "core";
+}
+
+export class RequestScheduler {
+  private readonly options: Required<SchedulerOptions>;
+  private readonly budgets = new Map<string, RateLimitBudget>();
+  private readonly queue: Array<() => void> = [];
+  private inFlight = 0;
+  private retries = 0;
+  private delayedMs = 0;
+
+  constructor(options: SchedulerOptions = {}) {
+    this.options = {
+      maxConcurrent: 8,
+      maxRetries: 3,
+      baseDelayMs: 1000,
+      maxWaitMs: 60000,
+      reserve: 10,
+      ...options,
+    };
+  }
+
+  /**
+   * Route every request of an Axios instance through this scheduler
+   * @param instance Axios instance to wrap
+   * @param attachOptions How the instance's responses should be interpreted
+   */
+  attach(instance: Axios, attachOptions: AttachOptions): void {
+    // Instances built with `new Axios()` don't inherit axios' default adapter
+    const adapter = axios.getAdapter(
+      instance.defaults.adapter ?? axios.defaults.adapter,
+    );
+    instance.defaults.adapter = ((config: InternalAxiosRequestConfig) =>
+      this.run(
+        () => adapter(config),
+        attachOptions.rateLimited ? resourceFor(config.url) : null,
+      )) as AxiosAdapter;
+  }
+
+  /**
+   * Current budgets as last reported by GitHub, keyed by resource
+   */
+  getBudgets(): Record<string, RateLimitBudget> {
+    return Object.fromEntries(this.budgets);
+  }
+
+  /**
+   * Record budgets from a /rate_limit response body
+   */
+  recordRateLimitResponse(data: any): void {
+    for (const [resource, value] of Object.entries<any>(
+      data?.resources || {},
+    )) {
+      this.budgets.set(resource, {
+        resource,
+        limit: value.limit,
+        remaining: value.remaining,
+        used: value.used,
+        reset: value.reset,
+        updatedAt: Date.now(),
+      });
+    }
+  }
+
+  /**
+   * Scheduler activity, for diagnostics
+   */
+  getStats() {
+    return {
+      inFlight: this.inFlight,
+      queued: this.queue.length,
+      retries: this.retries,
+      delayedMs: this.delayedMs,
+    };
+  }
+
+  private async run(
+    request: () => Promise<AxiosResponse>,
+    resource: string | null,
+  ): Promise<AxiosResponse> {
+    await this.acquire();
+    try {
+      for (let attempt = 0; ; attempt++) {
+        if (resource) {
+          await this.pace(resource);
+        }
+
+        let response: AxiosResponse;
+        try {
+          response = await request();
+        } catch (error: any) {
+          if (
+            attempt < this.options.maxRetries &&
+            RETRYABLE_ERROR_CODES.includes(error?.code)
+          ) {
+            await this.backoff(attempt);
+            continue;
+          }
+          throw error;
+        }
+
+        if (resource) {
+          this.record(resource, response);
+        }
+
+        const retryIn = this.retryDelay(response, attempt);
+        if (retryIn === null) {
+          return response;
+        }
+        this.retries++;
+        this.delayedMs += retryIn;
+        await sleep(retryIn);
+      }
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.inFlight < this.options.maxConcurrent) {
+      this.inFlight++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) =>
+      this.queue.push(() => {
+        this.inFlight++;
+        resolve();
+      }),
+    );
+  }
+
+  private release(): void {
+    this.inFlight--;
+    this.queue.shift()?.();
+  }
+
+  /**
+   * Delay a request when the budget is running low
+   * Below the reserve, remaining requests are spread evenly over the time
+   * left until reset; an exhausted budget waits for the reset if it is near,
+   * and fails fast otherwise.
+   */
+  private async pace(resource: string): Promise<void> {
+    const budget = this.budgets.get(resource);
+    if (!budget || budget.remaining > this.options.reserve) {
+      return;
+    }
+
+    const untilReset = budget.reset * 1000 - Date.now();
+    if (untilReset <= 0) {
+      this.budgets.delete(resource);
+      return;
+    }
+
+    if (budget.remaining <= 0) {
+      if (untilReset > this.options.maxWaitMs) {
+        throw new Error(
+          `GitHub API rate limit exceeded: ${budget.limit} requests used, resets at ${new Date(budget.reset * 1000).toISOString()}. Consider setting GITHUB_PERSONAL_ACCESS_TOKEN or GITHUB_TOKEN environment variable for higher rate limits.`,
+        );
+      }
+      this.delayedMs += untilReset;
+      await sleep(untilReset);
+      this.budgets.delete(resource);
+      return;
+    }
+
+    // Spend at most maxWaitMs pacing across the whole reserve
+    const spacing = Math.min(
+      untilReset / budget.remaining,
+      this.options.maxWaitMs / this.options.reserve,
+    );
+    // Count this request against the budget before the response updates it
+    budget.remaining--;
+    this.delayedMs += spacing;
+    await sleep(spacing);
+  }
+
+  private record(resource: string, response: AxiosResponse): void {
+    const remaining = header(response, "x-ratelimit-remaining");
+    const reset = header(response, "x-ratelimit-reset");
+    if (remaining === undefined || reset === undefined) {
+      return;
+    }
+
+    const name = header(response, "x-ratelimit-resource") || resource;
+    this.budgets.set(name, {
+      resource: name,
+      limit: Number(header(response, "x-ratelimit-limit") ?? 0),
+      remaining: Number(remaining),
+      used: Number(header(response, "x-ratelimit-used") ?? 0),
+      reset: Number(reset),
+      updatedAt: Date.now(),
+    });
+  }
+
+  /**
+   * Decide whether a response should be retried
+   * @returns Milliseconds to wait before retrying, or null to return the response
+   */
+  private retryDelay(response: AxiosResponse, attempt: number): number | null {
+    if (attempt >= this.options.maxRetries) {
+      return null;
+    }
+
+    const { status } = response;
+    const body =
+      typeof response.data === "string"
+        ? response.data
+        : String(response.data?.message ?? "");
+    const retryAfter = header(response, "retry-after");
+    const secondaryLimit =
+      (status === 403 || status === 429) &&
+      (retryAfter !== undefined || /secondary rate limit/i.test(body));
+
+    if (!RETRYABLE_STATUSES.includes(status) && !secondaryLimit) {
+      return null;
+    }
+
+    const delay =
+      retryAfter !== undefined && !Number.isNaN(Number(retryAfter))
+        ? Number(retryAfter) * 1000
+        : this.backoffDelay(attempt);
+
+    // Waiting longer than allowed only delays the inevitable error
+    return delay <= this.options.maxWaitMs ? delay : null;
+  }
+
+  private backoffDelay(attempt: number): number {
+    const delay = this.options.baseDelayMs * 2 ** attempt;
+    // Jitter keeps concurrent retries from hitting GitHub in lockstep
+    return delay + Math.random() * delay * 0.25;
+  }
+
+  private async backoff(attempt: number): Promise<void> {
+    const delay = this.backoffDelay(attempt);
+    this.retries++;
+    this.delayedMs += delay;
+    await sleep(delay);
+  }
+}
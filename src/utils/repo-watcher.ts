@@ -0,0 +1,159 @@
+/**
+ * Watches directories of a local checkout for edits
+ * Events are collected for a short quiet period and reported as one batch of
+ * repository-relative paths, so an editor's save (often a write to a
+ * temporary file followed by a rename) is reported once.
+ */
+
+import fs from "fs";
+import path from "path";
+
+export interface RepoChange {
+  /** Changed paths, repository-relative with forward slashes */
+  paths: string[];
+  /**
+   * Whether any entry may have been added or removed (fs.watch reports
+   * creations, deletions and atomic saves alike as renames)
+   */
+  structural: boolean;
+}
+
+export interface RepoWatcherOptions {
+  /** Quiet period before a batch is reported, in milliseconds */
+  debounce?: number;
+}
+
+export class RepoWatcher {
+  private readonly watchers = new Map<string, fs.FSWatcher>();
+  private readonly debounce: number;
+  private pending = new Set<string>();
+  private structural = false;
+  // False when the platform can't watch recursively and each directory has its own watcher
+  private recursive = true;
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param root Repository root on disk
+   * @param directories Repository-relative directories to watch recursively
+   * @param onChange Called with each batch of changes
+   */
+  constructor(
+    private readonly root: string,
+    private readonly directories: string[],
+    private readonly onChange: (change: RepoChange) => void,
+    options: RepoWatcherOptions = {},
+  ) {
+    this.debounce = options.debounce ?? 200;
+  }
+
+  /**
+   * Start watching; directories that don't exist are skipped
+   * @returns The repository-relative directories being watched
+   */
+  start(): string[] {
+    const watched: string[] = [];
+    for (const directory of this.directories) {
+      const absolute = path.join(this.root, directory);
+      if (!fs.existsSync(absolute)) {
+        continue;
+      }
+      try {
+        this.watch(absolute, true);
+      } catch (error: any) {
+        // Recursive watching needs Node 20 on Linux; watch each directory instead
+        if (error?.code !== "ERR_FEATURE_UNAVAILABLE_ON_PLATFORM") {
+          throw error;
+        }
+        this.recursive = false;
+        this.watchTree(absolute);
+      }
+      watched.push(directory);
+    }
+    return watched;
+  }
+
+  /**
+   * Stop watching and drop any batch not reported yet
+   */
+  close(): void {
+    this.watchers.forEach((watcher) => watcher.close());
+    this.watchers.clear();
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending.clear();
+  }
+
+  private watch(directory: string, recursive: boolean): void {
+    if (this.watchers.has(directory)) {
+      return;
+    }
+    const watcher = fs.watch(
+      directory,
+      { recursive, persistent: false },
+      (eventType, fileName) => {
+        if (fileName) {
+          this.record(path.join(directory, fileName.toString()), eventType);
+        }
+      },
+    );
+    // A watched directory that is deleted ends its watcher
+    watcher.on("error", () => {
+      watcher.close();
+      this.watchers.delete(directory);
+    });
+    this.watchers.set(directory, watcher);
+  }
+
+  private watchTree(directory: string): void {
+    this.watch(directory, false);
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+      if (entry.isDirectory()) {
+        this.watchTree(path.join(directory, entry.name));
+      }
+    }
+  }
+
+  private record(absolute: string, eventType: string): void {
+    const relative = path
+      .relative(this.root, absolute)
+      .split(path.sep)
+      .join("/");
+    this.pending.add(relative);
+    if (eventType === "rename") {
+      this.structural = true;
+      // Without recursive watching, new directories need their own watchers
+      if (!this.recursive && isDirectory(absolute)) {
+        this.watchTree(absolute);
+      }
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => this.flush(), this.debounce);
+    this.timer.unref();
+  }
+
+  private flush(): void {
+    this.timer = null;
+    const change: RepoChange = {
+      paths: [...this.pending].sort(),
+      structural: this.structural,
+    };
+    this.pending.clear();
+    this.structural = false;
+    if (change.paths.length > 0) {
+      this.onChange(change);
+    }
+  }
+}
+
+function isDirectory(absolute: string): boolean {
+  try {
+    return fs.statSync(absolute).isDirectory();
+  } catch (error) {
+    return false;
+  }
+}
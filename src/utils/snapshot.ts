@@ -0,0 +1,146 @@
+/**
+ * Offline snapshots of the Grafana UI knowledge base
+ * A snapshot is a single gzip-compressed JSON archive holding a manifest,
+ * the captured directory listings and file contents. SnapshotSource serves
+ * every read from the archive so the server can run without network access.
+ */
+
+import fs from "fs";
+import zlib from "zlib";
+import { ContentSource, DirEntry, SourceStat } from "./content-source.js";
+
+// Bump when the archive layout changes in an incompatible way
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+export interface SnapshotManifest {
+  format: number;
+  /** Ref the snapshot was taken at (null when taken from the sources' defaults) */
+  ref: string | null;
+  /** Commit SHA the ref resolved to, if the sources could resolve it */
+  commitSha: string | null;
+  createdAt: string;
+  components: number;
+  files: number;
+  /** Content sources that served the captured files */
+  sources: string[];
+}
+
+export interface SnapshotArchive {
+  manifest: SnapshotManifest;
+  /** Directory listings keyed by repository path */
+  directories: Record<string, DirEntry[]>;
+  /** File contents keyed by repository path */
+  files: Record<string, string>;
+}
+
+/**
+ * Write a snapshot archive to disk
+ * @param filePath Destination file (conventionally *.json.gz)
+ * @param archive Snapshot contents
+ */
+export function writeSnapshotFile(
+  filePath: string,
+  archive: SnapshotArchive,
+): void {
+  const compressed = zlib.gzipSync(JSON.stringify(archive), { level: 9 });
+  fs.writeFileSync(filePath, compressed);
+}
+
+/**
+ * Read and validate a snapshot archive from disk
+ * @param filePath Snapshot file written by writeSnapshotFile
+ * @returns The snapshot archive
+ */
+export function readSnapshotFile(filePath: string): SnapshotArchive {
+  let archive: SnapshotArchive;
+
+  try {
+    const compressed = fs.readFileSync(filePath);
+    archive = JSON.parse(zlib.gunzipSync(compressed).toString("utf8"));
+  } catch (error: any) {
+    throw new Error(`Cannot read snapshot ${filePath}: ${error.message}`);
+  }
+
+  if (!archive?.manifest || !archive.files || !archive.directories) {
+    throw new Error(`Invalid snapshot ${filePath}: missing manifest or files`);
+  }
+  if (archive.manifest.format !== SNAPSHOT_FORMAT_VERSION) {
+    throw new Error(
+      `Unsupported snapshot format ${archive.manifest.format} in ${filePath} (expected ${SNAPSHOT_FORMAT_VERSION})`,
+    );
+  }
+
+  return archive;
+}
+
+/**
+ * Serves repository content from a loaded snapshot archive
+ */
+export class SnapshotSource implements ContentSource {
+  readonly name = "snapshot";
+  readonly description: string;
+
+  // The archive's records as Maps, so paths such as "constructor" can't
+  // pick up Object.prototype members
+  private readonly files: Map<string, string>;
+  private readonly directories: Map<string, DirEntry[]>;
+
+  constructor(
+    readonly archive: SnapshotArchive,
+    filePath: string,
+  ) {
+    this.description = `snapshot ${filePath}`;
+    this.files = new Map(Object.entries(archive.files));
+    this.directories = new Map(Object.entries(archive.directories));
+  }
+
+  get manifest(): SnapshotManifest {
+    return this.archive.manifest;
+  }
+
+  /**
+   * Whether a requested ref refers to the captured content
+   * Matches the snapshot's ref and (a prefix of) its commit SHA
+   */
+  matchesRef(ref?: string): boolean {
+    if (!ref) {
+      return true;
+    }
+    const { ref: snapshotRef, commitSha } = this.archive.manifest;
+    return (
+      ref === snapshotRef ||
+      (!!commitSha && ref.length >= 7 && commitSha.startsWith(ref))
+    );
+  }
+
+  async readFile(filePath: string, ref?: string): Promise<string | null> {
+    if (!this.matchesRef(ref)) {
+      return null;
+    }
+    return this.files.get(filePath) ?? null;
+  }
+
+  async listDir(dirPath: string, ref?: string): Promise<DirEntry[] | null> {
+    if (!this.matchesRef(ref)) {
+      return null;
+    }
+    return this.directories.get(dirPath) ?? null;
+  }
+
+  async stat(filePath: string, ref?: string): Promise<SourceStat | null> {
+    if (!this.matchesRef(ref)) {
+      return null;
+    }
+    if (this.directories.has(filePath)) {
+      return { path: filePath, type: "dir" };
+    }
+    const content = this.files.get(filePath);
+    return content === undefined
+      ? null
+      : { path: filePath, type: "file", size: content.length };
+  }
+
+  async resolveRef(ref?: string): Promise<string | null> {
+    return this.matchesRef(ref) ? this.archive.manifest.commitSha : null;
+  }
+}
@@ -0,0 +1,488 @@
+/**
+ * Style extraction for Grafana UI components using the TypeScript compiler API
+ * Finds the style factories of a file (`getStyles = (theme: GrafanaTheme2) =>
+ * ({ ... })`, other get*Styles functions and inline `useStyles2((theme) =>
+ * ...)` callbacks), splits them into the blocks they return, and lists the
+ * theme tokens each block references (`theme.spacing(2)`,
+ * `theme.colors.text.secondary`) with the CSS property each one feeds, for
+ * both object styles (`css({ padding: ... })`) and template literals
+ * (css`padding: ${...};`).
+ */
+
+import ts from "typescript";
+
+export interface ThemeTokenUsage {
+  /** Token expression as written (e.g. "theme.spacing(1, 2)", "theme.shape.radius.default") */
+  token: string;
+  /** CSS property the token feeds, in kebab-case, or null when it isn't a property value (e.g. a media query) */
+  property: string | null;
+  /** Nested selectors and media queries the property sits under (e.g. "&:hover"), or null at the top level */
+  selector: string | null;
+  /** Line of the reference, 1-based */
+  line: number;
+}
+
+export interface StyleBlock {
+  /** Key of the block in the object the factory returns (e.g. "wrapper") */
+  name: string;
+  line: number;
+  /** Source of the block as written */
+  css: string;
+  tokens: ThemeTokenUsage[];
+  /** Helpers the theme is passed to (e.g. "getFocusStyles"), which add styles of their own */
+  mixins: string[];
+}
+
+export interface StyleFactory {
+  /** Function name, or "inline" for a callback passed to useStyles2 */
+  name: string;
+  /** Repository path of the declaring file */
+  file: string;
+  line: number;
+  /** Top-level declarations that use the factory (e.g. the component calling useStyles2(getStyles)) */
+  usedBy: string[];
+  blocks: StyleBlock[];
+}
+
+export interface ThemeTokenSummary {
+  token: string;
+  /** CSS properties the token feeds */
+  properties: string[];
+  /** Blocks referencing the token, as factory.block */
+  blocks: string[];
+  count: number;
+}
+
+// Hooks taking a style factory
+const STYLE_HOOKS = new Set(["useStyles2", "useStyles"]);
+
+/**
+ * Extract the style factories of a file
+ * @param code TypeScript source code
+ * @param filePath Repository path of the file; its extension picks the parser
+ * @returns Style factories in source order
+ */
+export function extractStyles(code: string, filePath: string): StyleFactory[] {
+  const sourceFile = ts.createSourceFile(
+    filePath,
+    code,
+    ts.ScriptTarget.Latest,
+    true,
+    filePath.endsWith(".tsx") ? ts.ScriptKind.TSX : ts.ScriptKind.TS,
+  );
+  const lineOf = (node: ts.Node) =>
+    sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line +
+    1;
+
+  const factories: StyleFactory[] = [];
+  const byName = new Map<string, StyleFactory>();
+  const addFactory = (
+    name: string,
+    declaration: ts.Node,
+    fn: ts.SignatureDeclaration,
+    usedBy: string[],
+  ) => {
+    const factory: StyleFactory = {
+      name,
+      file: filePath,
+      line: lineOf(declaration),
+      usedBy,
+      blocks: styleBlocks(fn, sourceFile, lineOf),
+    };
+    factories.push(factory);
+    if (name !== "inline") {
+      byName.set(name, factory);
+    }
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name) {
+      if (isStyleFactory(statement.name.text, statement)) {
+        addFactory(statement.name.text, statement, statement, []);
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        const fn = declaration.initializer
+          ? unwrapFunction(declaration.initializer)
+          : null;
+        if (
+          ts.isIdentifier(declaration.name) &&
+          fn &&
+          isStyleFactory(declaration.name.text, fn)
+        ) {
+          addFactory(declaration.name.text, declaration, fn, []);
+        }
+      }
+    }
+  }
+
+  // Record which declarations use each factory, and pick up inline ones
+  for (const statement of sourceFile.statements) {
+    const owner = declarationName(statement);
+    const visit = (node: ts.Node): void => {
+      if (ts.isIdentifier(node) && byName.has(node.text) && owner) {
+        const factory = byName.get(node.text)!;
+        if (owner !== factory.name && !factory.usedBy.includes(owner)) {
+          factory.usedBy.push(owner);
+        }
+      }
+      if (
+        ts.isCallExpression(node) &&
+        STYLE_HOOKS.has(node.expression.getText(sourceFile)) &&
+        node.arguments.length > 0 &&
+        (ts.isArrowFunction(node.arguments[0]) ||
+          ts.isFunctionExpression(node.arguments[0]))
+      ) {
+        addFactory("inline", node, node.arguments[0], owner ? [owner] : []);
+      }
+      ts.forEachChild(node, visit);
+    };
+    ts.forEachChild(statement, visit);
+  }
+
+  return factories.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Group the token references of style factories by token
+ * @param factories Factories returned by extractStyles
+ * @returns Tokens, most referenced first
+ */
+export function summarizeThemeTokens(
+  factories: StyleFactory[],
+): ThemeTokenSummary[] {
+  const summaries = new Map<string, ThemeTokenSummary>();
+  for (const factory of factories) {
+    for (const block of factory.blocks) {
+      for (const usage of block.tokens) {
+        let summary = summaries.get(usage.token);
+        if (!summary) {
+          summary = {
+            token: usage.token,
+            properties: [],
+            blocks: [],
+            count: 0,
+          };
+          summaries.set(usage.token, summary);
+        }
+        const blockName = `${factory.name}.${block.name}`;
+        if (usage.property && !summary.properties.includes(usage.property)) {
+          summary.properties.push(usage.property);
+        }
+        if (!summary.blocks.includes(blockName)) {
+          summary.blocks.push(blockName);
+        }
+        summary.count++;
+      }
+    }
+  }
+  return [...summaries.values()].sort(
+    (a, b) => b.count - a.count || a.token.localeCompare(b.token),
+  );
+}
+
+/**
+ * Whether a function is a style factory: named get*Styles, or taking a
+ * GrafanaTheme as its first parameter
+ */
+function isStyleFactory(name: string, fn: ts.SignatureDeclaration): boolean {
+  if (/^get\w*Styles$/.test(name)) {
+    return true;
+  }
+  const type = fn.parameters[0]?.type;
+  return !!type && /\bGrafanaTheme2?\b/.test(type.getText());
+}
+
+/**
+ * The function a declaration's initializer defines, looking through wrappers
+ * such as stylesFactory((theme) => ...) and memoize(...)
+ */
+function unwrapFunction(
+  expression: ts.Expression,
+): ts.SignatureDeclaration | null {
+  if (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression)) {
+    return expression;
+  }
+  if (ts.isParenthesizedExpression(expression)) {
+    return unwrapFunction(expression.expression);
+  }
+  if (ts.isCallExpression(expression) && expression.arguments.length > 0) {
+    return unwrapFunction(expression.arguments[0]);
+  }
+  return null;
+}
+
+function declarationName(statement: ts.Statement): string | null {
+  if (
+    (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) &&
+    statement.name
+  ) {
+    return statement.name.text;
+  }
+  if (ts.isVariableStatement(statement)) {
+    const name = statement.declarationList.declarations[0]?.name;
+    return name && ts.isIdentifier(name) ? name.text : null;
+  }
+  return null;
+}
+
+/**
+ * Split what a style factory returns into blocks: the properties of a
+ * returned object, or the returned value as a single block
+ */
+function styleBlocks(
+  fn: ts.SignatureDeclaration,
+  sourceFile: ts.SourceFile,
+  lineOf: (node: ts.Node) => number,
+): StyleBlock[] {
+  const body = (fn as ts.FunctionLikeDeclarationBase).body;
+  if (!body) {
+    return [];
+  }
+  const themeNames = themeIdentifiers(fn);
+  const returned = returnedExpression(body);
+  if (!returned) {
+    return [];
+  }
+
+  // Blocks defined as locals and returned by shorthand ({ wrapper, label })
+  const locals = new Map<string, ts.Expression>();
+  if (ts.isBlock(body)) {
+    for (const statement of body.statements) {
+      if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (ts.isIdentifier(declaration.name) && declaration.initializer) {
+            locals.set(declaration.name.text, declaration.initializer);
+          }
+        }
+      }
+    }
+  }
+
+  const block = (name: string, node: ts.Node): StyleBlock => ({
+    name,
+    line: lineOf(node),
+    css: node.getText(sourceFile),
+    ...tokenUsages(node, themeNames, sourceFile, lineOf),
+  });
+
+  if (!ts.isObjectLiteralExpression(returned)) {
+    return [block("default", returned)];
+  }
+  const blocks: StyleBlock[] = [];
+  for (const property of returned.properties) {
+    if (ts.isPropertyAssignment(property)) {
+      blocks.push(
+        block(property.name.getText(sourceFile), property.initializer),
+      );
+    } else if (ts.isShorthandPropertyAssignment(property)) {
+      const local = locals.get(property.name.text);
+      blocks.push(block(property.name.text, local ?? property));
+    } else if (ts.isMethodDeclaration(property)) {
+      blocks.push(block(property.name.getText(sourceFile), property));
+    }
+  }
+  return blocks;
+}
+
+/**
+ * The expression a function body returns (the last return statement of a
+ * block body)
+ */
+function returnedExpression(body: ts.ConciseBody): ts.Expression | null {
+  if (!ts.isBlock(body)) {
+    let expression: ts.Expression = body;
+    while (ts.isParenthesizedExpression(expression)) {
+      expression = expression.expression;
+    }
+    return expression;
+  }
+  for (let i = body.statements.length - 1; i >= 0; i--) {
+    const statement = body.statements[i];
+    if (ts.isReturnStatement(statement) && statement.expression) {
+      let expression: ts.Expression = statement.expression;
+      while (ts.isParenthesizedExpression(expression)) {
+        expression = expression.expression;
+      }
+      return expression;
+    }
+  }
+  return null;
+}
+
+/**
+ * Names the theme goes by in a factory: its first parameter when it is one,
+ * and `theme` (as destructured from style props, `const { theme } = props`)
+ */
+function themeIdentifiers(fn: ts.SignatureDeclaration): Set<string> {
+  const names = new Set(["theme"]);
+  const parameter = fn.parameters[0];
+  if (
+    parameter &&
+    ts.isIdentifier(parameter.name) &&
+    parameter.type &&
+    /\bGrafanaTheme2?\b/.test(parameter.type.getText())
+  ) {
+    names.add(parameter.name.text);
+  }
+  return names;
+}
+
+/**
+ * Find the theme token references and mixins of a style block
+ */
+function tokenUsages(
+  root: ts.Node,
+  themeNames: Set<string>,
+  sourceFile: ts.SourceFile,
+  lineOf: (node: ts.Node) => number,
+): { tokens: ThemeTokenUsage[]; mixins: string[] } {
+  const tokens: ThemeTokenUsage[] = [];
+  const mixins: string[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isIdentifier(node) && themeNames.has(node.text)) {
+      const parent = node.parent;
+      if (
+        (ts.isPropertyAccessExpression(parent) ||
+          ts.isElementAccessExpression(parent)) &&
+        parent.expression === node
+      ) {
+        const token = tokenExpression(node);
+        tokens.push({
+          token: token.getText(sourceFile).replace(/\s+/g, " "),
+          ...cssContext(token, root, sourceFile),
+          line: lineOf(node),
+        });
+        return;
+      }
+      if (ts.isCallExpression(parent) && parent.arguments.includes(node)) {
+        const callee = parent.expression.getText(sourceFile);
+        if (!mixins.includes(callee)) {
+          mixins.push(callee);
+        }
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(root);
+  return { tokens, mixins };
+}
+
+/**
+ * Extend a theme reference to the whole token expression: property accesses
+ * and calls chained onto it (theme.spacing(2), theme.colors.text.secondary)
+ */
+function tokenExpression(identifier: ts.Identifier): ts.Expression {
+  let token: ts.Expression = identifier;
+  while (true) {
+    const parent = token.parent;
+    if (
+      (ts.isPropertyAccessExpression(parent) ||
+        ts.isElementAccessExpression(parent) ||
+        ts.isCallExpression(parent)) &&
+      parent.expression === token
+    ) {
+      token = parent;
+    } else if (ts.isNonNullExpression(parent)) {
+      token = parent;
+    } else {
+      return token;
+    }
+  }
+}
+
+/**
+ * Work out the CSS property a token feeds and the selectors around it
+ */
+function cssContext(
+  token: ts.Node,
+  root: ts.Node,
+  sourceFile: ts.SourceFile,
+): { property: string | null; selector: string | null } {
+  let property: string | null = null;
+  let propertyDecided = false;
+  const selectors: string[] = [];
+
+  for (
+    let child: ts.Node = token, node = token.parent;
+    node && child !== root;
+    child = node, node = node.parent
+  ) {
+    if (ts.isTemplateSpan(node) && ts.isTemplateExpression(node.parent)) {
+      // css`...`: read the property and selectors from the text before it
+      const template = node.parent;
+      const index = template.templateSpans.indexOf(node);
+      const before = [
+        template.head.text,
+        ...template.templateSpans
+          .slice(0, index)
+          .map((span) => span.literal.text),
+      ].join("0");
+      if (!propertyDecided) {
+        const match = before.match(/([-\w]+)\s*:[^;{}]*$/);
+        property = match ? match[1] : null;
+        propertyDecided = true;
+      }
+      selectors.unshift(...openSelectors(before));
+    } else if (ts.isPropertyAssignment(node)) {
+      const key = propertyKey(node.name, sourceFile);
+      if (child === node.name) {
+        // A computed key: the token builds a selector or media query
+        propertyDecided = true;
+      } else if (!propertyDecided) {
+        property = kebabCase(key);
+        propertyDecided = true;
+      } else {
+        selectors.unshift(key);
+      }
+    }
+  }
+  return {
+    property,
+    selector: selectors.length > 0 ? selectors.join(" ") : null,
+  };
+}
+
+/**
+ * Selectors still open at the end of a CSS text (`&:hover { color: ` → "&:hover")
+ */
+function openSelectors(css: string): string[] {
+  const stack: string[] = [];
+  let start = 0;
+  for (let i = 0; i < css.length; i++) {
+    const char = css[i];
+    if (char === "{") {
+      stack.push(css.slice(start, i).trim());
+      start = i + 1;
+    } else if (char === "}") {
+      stack.pop();
+      start = i + 1;
+    } else if (char === ";") {
+      start = i + 1;
+    }
+  }
+  return stack;
+}
+
+function propertyKey(name: ts.PropertyName, sourceFile: ts.SourceFile): string {
+  if (ts.isComputedPropertyName(name)) {
+    return name.expression.getText(sourceFile).replace(/\s+/g, " ");
+  }
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name)) {
+    return name.text;
+  }
+  return name.getText(sourceFile);
+}
+
+/**
+ * CSS property name of an object style key (borderRadius → border-radius,
+ * WebkitAppearance → -webkit-appearance)
+ */
+function kebabCase(key: string): string {
+  if (key.includes("-")) {
+    return key;
+  }
+  const kebab = key.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+  return /^(?:Webkit|Moz|Ms)/.test(key) ? kebab : kebab.replace(/^-/, "");
+}
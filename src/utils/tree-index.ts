@@ -0,0 +1,95 @@
+/**
+ * In-memory index of a repository subtree
+ * Built from a single recursive git Trees API response so directory
+ * listings, existence checks and blob SHAs need no further requests.
+ */
+
+import { DirEntry, SourceStat } from "./content-source.js";
+
+/** One item of a `git/trees/{sha}?recursive=1` response */
+export interface GitTreeItem {
+  path: string;
+  type: "blob" | "tree" | "commit";
+  sha: string;
+  size?: number;
+}
+
+export class RepoTreeIndex {
+  private readonly entries = new Map<string, DirEntry>();
+  private readonly children = new Map<string, DirEntry[]>();
+
+  /**
+   * @param root Repository path the tree was fetched for (e.g. "packages/grafana-ui")
+   * @param treeSha SHA of the tree object at root
+   * @param items Recursive tree items, with paths relative to root
+   * @param fileUrl Optional function building a download URL for a file path
+   */
+  constructor(
+    readonly root: string,
+    readonly treeSha: string,
+    items: GitTreeItem[],
+    fileUrl?: (filePath: string) => string,
+  ) {
+    this.children.set(root, []);
+
+    for (const item of items) {
+      // Submodules ("commit" items) have no content to serve
+      if (item.type === "commit") continue;
+
+      const entryPath = `${root}/${item.path}`;
+      const entry: DirEntry = {
+        name: item.path.split("/").pop() || item.path,
+        path: entryPath,
+        type: item.type === "tree" ? "dir" : "file",
+        sha: item.sha,
+      };
+      if (entry.type === "file") {
+        entry.size = item.size;
+        if (fileUrl) {
+          entry.url = fileUrl(entryPath);
+        }
+      } else {
+        this.children.set(entryPath, this.children.get(entryPath) || []);
+      }
+
+      this.entries.set(entryPath, entry);
+      const parent = entryPath.slice(0, entryPath.lastIndexOf("/"));
+      this.children.set(parent, [...(this.children.get(parent) || []), entry]);
+    }
+  }
+
+  /** Number of indexed files and directories */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Whether a repository path lies inside the indexed subtree
+   */
+  covers(filePath: string): boolean {
+    return filePath === this.root || filePath.startsWith(`${this.root}/`);
+  }
+
+  /**
+   * List a directory
+   * @returns Directory entries, or null when the directory isn't in the tree
+   */
+  list(dirPath: string): DirEntry[] | null {
+    const entries = this.children.get(dirPath);
+    return entries ? [...entries] : null;
+  }
+
+  /**
+   * Look up a file or directory
+   * @returns Entry details, or null when the path isn't in the tree
+   */
+  stat(filePath: string): SourceStat | null {
+    if (filePath === this.root) {
+      return { path: filePath, type: "dir", sha: this.treeSha };
+    }
+    const entry = this.entries.get(filePath);
+    return entry
+      ? { path: filePath, type: entry.type, size: entry.size, sha: entry.sha }
+      : null;
+  }
+}
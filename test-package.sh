@@ -76,6 +76,380 @@ echo "✅ Testing npm pack (dry run)..."
 npm pack --dry-run >/dev/null 2>&1
 echo "   npm pack simulation successful!"
 
+# Test 8: Snapshot round trip
+echo "✅ Testing snapshot export and import..."
+FIXTURE=$(mktemp -d)
+trap 'rm -rf "$FIXTURE"' EXIT
+UI="$FIXTURE/packages/grafana-ui/src"
+mkdir -p "$UI/components/Button" "$UI/themes" "$FIXTURE/packages/grafana-data/src"
+cat >"$UI/index.ts" <<'TS'
+export * from './components';
+TS
+cat >"$UI/components/index.ts" <<'TS'
+export { Button } from './Button/Button';
+export type { ButtonProps } from './Button/types';
+TS
+cat >"$UI/components/Button/types.ts" <<'TS'
+interface BaseProps {
+  /** Tooltip shown on hover */
+  tooltip?: string;
+}
+
+export interface ButtonProps extends BaseProps {
+  /** Size of the button */
+  size?: 'sm' | 'md';
+  /** @deprecated Use `fill` instead */
+  variant?: string;
+}
+TS
+cat >"$UI/components/Button/Button.tsx" <<'TS'
+import { css } from '@emotion/css';
+import { ButtonProps } from './types';
+
+export const Button = ({ size = 'md' }: ButtonProps) => null;
+
+const getStyles = (theme: GrafanaTheme2) => ({
+  button: css({ padding: theme.spacing(1) }),
+});
+TS
+cat >"$UI/components/Button/Button.story.tsx" <<'TS'
+export default { title: 'Buttons/Button' };
+export const Basic = () => null;
+TS
+cat >"$UI/components/Button/Button.mdx" <<'TS'
+# Button
+TS
+cat >"$UI/components/Button/Button.test.tsx" <<'TS'
+describe('Button', () => { it('renders', () => {}); });
+TS
+cat >"$UI/themes/createColors.ts" <<'TS'
+export const colors = { primary: '#3d71d9' };
+TS
+cat >"$FIXTURE/packages/grafana-data/src/index.ts" <<'TS'
+export interface DataFrame { name?: string }
+TS
+timeout 60 node --input-type=module - "$FIXTURE" <<'JS'
+import { axios } from "./build/utils/axios.js";
+import { LocalFsSource } from "./build/utils/content-source.js";
+import { toolHandlers } from "./build/tools.js";
+
+const fixture = process.argv[2];
+const snapshot = `${fixture}/snapshot.json.gz`;
+axios.setContentSources([new LocalFsSource(fixture)]);
+await axios.exportSnapshot(snapshot);
+axios.loadSnapshot(snapshot);
+
+// Every action but diff_component, which needs two refs
+const calls = [
+  { action: "get_component", componentName: "Button" },
+  { action: "get_demo", componentName: "Button" },
+  { action: "list_components" },
+  { action: "get_metadata", componentName: "Button" },
+  { action: "get_directory" },
+  { action: "get_documentation", componentName: "Button" },
+  { action: "get_stories", componentName: "Button" },
+  { action: "get_tests", componentName: "Button" },
+  { action: "search", query: "button" },
+  { action: "get_theme_tokens" },
+  { action: "get_dependencies", componentName: "Button" },
+  { action: "cache", operation: "stats" },
+  { action: "get_deprecations" },
+  { action: "get_styles", componentName: "Button" },
+  { action: "get_component", componentName: "DataFrame", package: "data" },
+];
+for (const params of calls) {
+  try {
+    await toolHandlers.grafana_ui(params);
+  } catch (error) {
+    console.log(`   ❌ ${JSON.stringify(params)}: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+// Props declared in a sibling types.ts must have been captured
+const metadata = JSON.parse(
+  (await toolHandlers.grafana_ui(calls[3])).content[0].text,
+);
+if (!metadata.props?.some((prop) => prop.name === "size")) {
+  console.log("   ❌ Props imported from types.ts missing from the snapshot");
+  process.exit(1);
+}
+JS
+echo "   Every action works on a loaded snapshot!"
+
+# Test 9: Export maps
+echo "✅ Testing export maps..."
+timeout 60 node --input-type=module - <<'JS'
+import { ExportMapBuilder } from "./build/utils/export-map.js";
+
+const files = {
+  "src/index.ts": [
+    "export * from './a';",
+    "export * from './b';",
+    "export * from './self';",
+    "export { Button as PrimaryButton } from './Button';",
+    "export * as icons from './icons';",
+    "export * from './shadowed';",
+    "import { Card } from './Card';",
+    "export { Card };",
+    "export const x = 0;",
+  ].join("\n"),
+  // a and b re-export from each other, self from itself
+  "src/a.ts": "export { x } from './b';\nexport const y = 1;\n",
+  "src/b.ts": "export { y } from './a';\nexport const x = 2;\n",
+  "src/self.ts": "export * from './self';\nexport const z = 3;\n",
+  "src/Button.tsx": "export const Button = () => null;\n",
+  "src/Card.tsx": "/** @deprecated Use Box instead */\nexport const Card = () => null;\n",
+  "src/icons.ts": "export const Check = 'check';\n",
+  "src/shadowed.ts": "export const x = 4;\nexport default 5;\n",
+};
+const reader = {
+  readFile: async (file) => files[file] ?? null,
+  listDir: async (dir) =>
+    Object.keys(files)
+      .filter((file) => file.startsWith(`${dir}/`))
+      .map((file) => ({ name: file.slice(dir.length + 1), path: file, type: "file" })),
+};
+
+const timer = setTimeout(() => {
+  console.log("   ❌ Export map of a cyclic barrel never resolved");
+  process.exit(1);
+}, 10000);
+const exports = await new ExportMapBuilder(reader).build(["src/index.ts"]);
+clearTimeout(timer);
+
+const expected = {
+  // Declared in the barrel, so `export *` doesn't override it
+  x: { file: "src/index.ts", localName: "x" },
+  y: { file: "src/a.ts", localName: "y" },
+  z: { file: "src/self.ts", localName: "z" },
+  PrimaryButton: { file: "src/Button.tsx", localName: "Button" },
+  icons: { file: "src/icons.ts", kind: "namespace" },
+  Card: { file: "src/Card.tsx", deprecated: "Use Box instead" },
+  default: undefined,
+};
+for (const [name, fields] of Object.entries(expected)) {
+  const target = exports.get(name);
+  const mismatch = fields
+    ? Object.entries(fields).find(([field, value]) => target?.[field] !== value)
+    : target && ["default", target.file];
+  if (mismatch) {
+    console.log(`   ❌ ${name}: expected ${JSON.stringify(fields)}, got ${JSON.stringify(target)}`);
+    process.exit(1);
+  }
+}
+JS
+echo "   Renames, re-exports, namespaces and cycles resolve!"
+
+# Test 10: Installed package with bundled declarations
+echo "✅ Testing an installed @grafana/ui with bundled declarations..."
+PACKAGE="$FIXTURE/project/node_modules/@grafana/ui"
+mkdir -p "$PACKAGE/dist/esm/components/Button"
+cat >"$PACKAGE/package.json" <<'TS'
+{ "name": "@grafana/ui", "version": "11.2.0" }
+TS
+cat >"$PACKAGE/dist/index.d.ts" <<'TS'
+interface ButtonProps {
+    size?: 'sm' | 'md';
+}
+declare const Button: ({ size }: ButtonProps) => null;
+export { Button, ButtonProps };
+TS
+cat >"$PACKAGE/dist/esm/index.js" <<'TS'
+export { Button } from './components/Button/Button.js';
+TS
+cat >"$PACKAGE/dist/esm/components/Button/Button.js" <<'TS'
+const Button = () => null;
+export { Button };
+TS
+timeout 60 node --input-type=module - "$FIXTURE" <<'JS'
+import { axios } from "./build/utils/axios.js";
+import { LocalFsSource } from "./build/utils/content-source.js";
+import {
+  NodeModulesSource,
+  findInstalledPackage,
+} from "./build/utils/node-modules-source.js";
+import { toolHandlers } from "./build/tools.js";
+
+const fixture = process.argv[2];
+const installed = findInstalledPackage(`${fixture}/project`);
+axios.setContentSources([
+  new NodeModulesSource(installed),
+  new LocalFsSource(fixture),
+]);
+
+// Barrels come from the repository, so exports reach the declaring files
+const exports = await axios.getPackageExports("ui");
+const expected = {
+  Button: "packages/grafana-ui/src/components/Button/Button.tsx",
+  ButtonProps: "packages/grafana-ui/src/components/Button/types.ts",
+};
+for (const [name, file] of Object.entries(expected)) {
+  if (exports.get(name)?.file !== file) {
+    console.log(`   ❌ ${name} resolved to ${exports.get(name)?.file}`);
+    process.exit(1);
+  }
+}
+const source = await toolHandlers.grafana_ui({
+  action: "get_component",
+  componentName: "Button",
+});
+if (!source.content[0].text.includes("installed @grafana/ui@11.2.0")) {
+  console.log("   ❌ Button source not served from the installed package");
+  process.exit(1);
+}
+await toolHandlers.grafana_ui({ action: "get_stories", componentName: "Button" });
+JS
+echo "   Barrels and stories come from the repository!"
+
+# Test 11: Prop origins
+echo "✅ Testing prop origins..."
+timeout 60 node --input-type=module - "$FIXTURE" <<'JS'
+import { axios } from "./build/utils/axios.js";
+import { LocalFsSource } from "./build/utils/content-source.js";
+
+axios.setContentSources([new LocalFsSource(process.argv[2])]);
+
+// Members of a props type kept in types.ts are still the component's own
+const metadata = await axios.getComponentMetadata("Button");
+const origins = Object.fromEntries(
+  metadata.props.map((prop) => [prop.name, prop.origin]),
+);
+const expected = { size: "own", variant: "own", tooltip: "inherited" };
+for (const [name, origin] of Object.entries(expected)) {
+  if (origins[name] !== origin) {
+    console.log(`   ❌ ${name} should be ${origin}, got ${origins[name]}`);
+    process.exit(1);
+  }
+}
+JS
+echo "   Props are labelled own or inherited by the props type!"
+
+# Test 12: Fuzzy component names
+echo "✅ Testing fuzzy component names..."
+timeout 60 node --input-type=module - "$FIXTURE" <<'JS'
+import { axios } from "./build/utils/axios.js";
+import { LocalFsSource } from "./build/utils/content-source.js";
+import { resolveName } from "./build/utils/name-matcher.js";
+import { toolHandlers } from "./build/tools.js";
+
+const fail = (message) => {
+  console.log(`   ❌ ${message}`);
+  process.exit(1);
+};
+
+const candidates = ["Button", "ButtonGroup", "IconButton", "Modal", "DatePicker", "DateTimePicker"];
+const cases = [
+  ["button", "Button", "case"],
+  ["date_picker", "DatePicker", "normalized"],
+  ["Dialog", "Modal", "alias"],
+  ["Buton", "Button", "distance"],
+  // Ambiguous guesses aren't resolved, only suggested
+  ["Picker", null, null],
+];
+for (const [query, name, reason] of cases) {
+  const resolution = resolveName(query, candidates);
+  if (resolution.name !== name || resolution.reason !== reason) {
+    fail(`"${query}" resolved to ${resolution.name} (${resolution.reason}), expected ${name} (${reason})`);
+  }
+}
+if (resolveName("Picker", candidates).suggestions[0]?.name !== "DatePicker") {
+  fail('"Picker" should suggest DatePicker first');
+}
+
+// Through the tool: misspellings are served, unknown names carry suggestions
+axios.setContentSources([new LocalFsSource(process.argv[2])]);
+const source = await toolHandlers.grafana_ui({ action: "get_component", componentName: "buton" });
+if (!source.content[0].text.includes("export const Button")) {
+  fail('"buton" did not return Button\'s source');
+}
+try {
+  await toolHandlers.grafana_ui({ action: "get_component", componentName: "Xyzzy" });
+  fail('"Xyzzy" should not resolve');
+} catch (error) {
+  if (error.code !== -32602 || !Array.isArray(error.data?.suggestions)) {
+    fail(`unknown names should be InvalidParams errors with suggestions, got ${error.message}`);
+  }
+}
+JS
+echo "   Misspelled, aliased and unknown names are handled!"
+
+# Test 13: Component diffs between two refs
+echo "✅ Testing diff_component..."
+HISTORY="$FIXTURE/history"
+HISTORY_UI="$HISTORY/packages/grafana-ui/src"
+mkdir -p "$HISTORY_UI/components/Tag"
+cat >"$HISTORY_UI/index.ts" <<'TS'
+export { Tag } from './components/Tag/Tag';
+TS
+cat >"$HISTORY_UI/components/Tag/Tag.tsx" <<'TS'
+interface Props extends React.HTMLAttributes<HTMLSpanElement> {
+  name: string;
+  colorIndex?: number;
+  icon?: string;
+}
+
+export const Tag = ({ name }: Props) => null;
+TS
+git -C "$HISTORY" init -q
+git -C "$HISTORY" add -A
+git -C "$HISTORY" -c user.name=test -c user.email=test@example.com commit -qm v1
+git -C "$HISTORY" tag v1.0.0
+cat >"$HISTORY_UI/components/Tag/Tag.tsx" <<'TS'
+interface Props extends React.HTMLAttributes<HTMLDivElement> {
+  name: string;
+  colorIndex: number;
+  icon?: string | null;
+  onRemove?: () => void;
+}
+
+export const Tag = ({ name }: Props) => null;
+TS
+git -C "$HISTORY" -c user.name=test -c user.email=test@example.com commit -qam v2
+git -C "$HISTORY" tag v2.0.0
+timeout 60 node --input-type=module - "$HISTORY" <<'JS'
+import { axios } from "./build/utils/axios.js";
+import { LocalFsSource } from "./build/utils/content-source.js";
+import { toolHandlers } from "./build/tools.js";
+
+axios.setContentSources([new LocalFsSource(process.argv[2])]);
+const diff = JSON.parse(
+  (
+    await toolHandlers.grafana_ui({
+      action: "diff_component",
+      componentName: "Tag",
+      fromRef: "v1.0.0",
+      toRef: "v2.0.0",
+    })
+  ).content[0].text,
+);
+
+const names = (props) => props.map((prop) => prop.name).join(",");
+const checks = [
+  [diff.files.source.status, "modified"],
+  [diff.files.story.status, "missing"],
+  [names(diff.props.added), "onRemove"],
+  [names(diff.props.removed), ""],
+  [names(diff.props.retyped), "icon"],
+  [names(diff.props.newlyRequired), "colorIndex"],
+  // DOM attributes are compared by the type they come from
+  [diff.props.domTypes.from.join(), "React.HTMLAttributes<HTMLSpanElement>"],
+  [diff.props.domTypes.to.join(), "React.HTMLAttributes<HTMLDivElement>"],
+];
+for (const [actual, expected] of checks) {
+  if (actual !== expected) {
+    console.log(`   ❌ Expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+    console.log(JSON.stringify(diff.props, null, 2));
+    process.exit(1);
+  }
+}
+if (!diff.files.source.diff.includes("+  onRemove?: () => void;")) {
+  console.log("   ❌ Source diff is missing the added prop");
+  process.exit(1);
+}
+JS
+echo "   Files and props are compared between refs!"
+
 echo ""
 echo "🎉 All tests passed! Package is ready for publishing."
 echo ""